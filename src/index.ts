@@ -1,6 +1,28 @@
 import { v4 as uuidv4 } from "uuid";
-import { Server, StableBTreeMap, ic } from "azle";
+import {
+  None,
+  Opt,
+  Principal,
+  Record,
+  Server,
+  Some,
+  StableBTreeMap,
+  Variant,
+  Vec,
+  bool,
+  ic,
+  nat16,
+  nat32,
+  query,
+  text,
+  update,
+} from "azle";
+import { managementCanister } from "azle/canisters/management";
 import express from "express";
+import { hmac } from "@noble/hashes/hmac";
+import { pbkdf2 } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
 
 enum UserRole {
   Judge = "Judge",
@@ -9,12 +31,22 @@ enum UserRole {
   Litigant = "Litigant",
 }
 
+// Schema versions of the stored records. Bump one together with a new
+// migration in its registry (see userMigrations and friends).
+const USER_SCHEMA_VERSION = 3;
+const CASE_SCHEMA_VERSION = 1;
+const HEARING_SCHEMA_VERSION = 1;
+
 class UserProfile {
   id: string;
+  schemaVersion: number;
   username: string;
   email: string;
   password: string;
   role: UserRole;
+  active: boolean;
+  deactivatedAt: Date | null;
+  principal: string | null;
   createdAt: Date;
   updatedAt: Date | null;
 
@@ -25,22 +57,221 @@ class UserProfile {
     role: UserRole
   ) {
     this.id = uuidv4();
+    this.schemaVersion = USER_SCHEMA_VERSION;
     this.username = username;
     this.email = email;
     this.password = password;
     this.role = role;
+    this.active = true;
+    this.deactivatedAt = null;
+    this.principal = null;
     this.createdAt = new Date();
   }
 }
 
+enum CaseStatus {
+  Filed = "Filed",
+  Open = "Open",
+  InHearing = "InHearing",
+  Adjourned = "Adjourned",
+  Judgment = "Judgment",
+  Closed = "Closed",
+  Appealed = "Appealed",
+  Dismissed = "Dismissed",
+}
+
+// Allowed case status transitions
+const caseStatusTransitions: Record<CaseStatus, CaseStatus[]> = {
+  [CaseStatus.Filed]: [CaseStatus.Open, CaseStatus.Dismissed],
+  [CaseStatus.Open]: [
+    CaseStatus.InHearing,
+    CaseStatus.Adjourned,
+    CaseStatus.Judgment,
+    CaseStatus.Closed,
+    CaseStatus.Dismissed,
+  ],
+  [CaseStatus.InHearing]: [
+    CaseStatus.Adjourned,
+    CaseStatus.Judgment,
+    CaseStatus.Dismissed,
+  ],
+  [CaseStatus.Adjourned]: [CaseStatus.InHearing, CaseStatus.Dismissed],
+  [CaseStatus.Judgment]: [CaseStatus.Closed, CaseStatus.Appealed],
+  [CaseStatus.Closed]: [CaseStatus.Appealed],
+  [CaseStatus.Appealed]: [CaseStatus.Open, CaseStatus.Closed],
+  [CaseStatus.Dismissed]: [CaseStatus.Appealed],
+};
+
+// Statuses in which a case is disposed of and can no longer be modified
+const closedCaseStatuses: string[] = [CaseStatus.Closed, CaseStatus.Dismissed];
+
+interface CaseStatusChange {
+  from: CaseStatus | null;
+  to: CaseStatus;
+  changedBy: string;
+  changedAt: Date;
+  reason: string | null;
+}
+
+enum PartySide {
+  Plaintiff = "Plaintiff",
+  Defendant = "Defendant",
+  Respondent = "Respondent",
+  Intervenor = "Intervenor",
+}
+
+interface CaseParty {
+  id: string;
+  name: string;
+  side: PartySide;
+  litigantId: string | null;
+  lawyerIds: string[];
+  addedBy: string;
+  addedAt: Date;
+}
+
+enum CaseType {
+  Civil = "Civil",
+  Criminal = "Criminal",
+  Family = "Family",
+  Commercial = "Commercial",
+  Probate = "Probate",
+}
+
+// Codes substituted for {type} in case numbers
+const caseTypeCodes: Record<CaseType, string> = {
+  [CaseType.Civil]: "CV",
+  [CaseType.Criminal]: "CR",
+  [CaseType.Family]: "FAM",
+  [CaseType.Commercial]: "COM",
+  [CaseType.Probate]: "PRB",
+};
+
+interface CaseNumberFormat {
+  pattern: string;
+  defaultCourt: string;
+}
+
+// Used until an administrator stores a different format
+const DEFAULT_CASE_NUMBER_FORMAT: CaseNumberFormat = {
+  pattern: "{court}/{type}/{seq:5}/{year}",
+  defaultCourt: "HC",
+};
+
+enum JudgeAssignmentStrategy {
+  RoundRobin = "RoundRobin",
+  LowestCaseload = "LowestCaseload",
+  WeightedCaseload = "WeightedCaseload",
+}
+
+const DEFAULT_JUDGE_ASSIGNMENT_STRATEGY =
+  JudgeAssignmentStrategy.LowestCaseload;
+
+// How much one open case of each type adds to a judge's weighted caseload
+const caseTypeWeights: Record<CaseType, number> = {
+  [CaseType.Civil]: 1,
+  [CaseType.Criminal]: 2,
+  [CaseType.Family]: 1,
+  [CaseType.Commercial]: 3,
+  [CaseType.Probate]: 0.5,
+};
+
+interface JudgeUnavailability {
+  id: string;
+  from: Date;
+  to: Date;
+  reason: string;
+  recordedBy: string;
+  recordedAt: Date;
+}
+
+interface JudgeCandidate {
+  judgeId: string;
+  username: string;
+  openCases: number;
+  weightedCaseload: number;
+}
+
+interface JudgeAssignment {
+  strategy: JudgeAssignmentStrategy;
+  judgeId: string;
+  reason: string;
+  candidates: JudgeCandidate[];
+  skipped: { judgeId: string; reason: string }[];
+}
+
+enum ConflictOfInterestType {
+  OpposingSides = "OpposingSides",
+  FormerCounsel = "FormerCounsel",
+  DeclaredRelationship = "DeclaredRelationship",
+}
+
+interface ConflictOfInterest {
+  type: ConflictOfInterestType;
+  userId: string;
+  details: string;
+}
+
+// A relationship a judge or lawyer has declared with a person who may
+// appear as a party, matched by linked litigant account or by name
+interface DeclaredRelationship {
+  id: string;
+  partyName: string | null;
+  litigantId: string | null;
+  relationship: string;
+  declaredAt: Date;
+}
+
+interface JudgeRecusal {
+  judgeId: string;
+  reason: string;
+  recusedAt: Date;
+}
+
+enum CaseLinkType {
+  AppealOf = "AppealOf",
+  AppealedIn = "AppealedIn",
+  ConsolidatedWith = "ConsolidatedWith",
+  ConsolidatedInto = "ConsolidatedInto",
+  RelatedTo = "RelatedTo",
+  RemandedFrom = "RemandedFrom",
+  RemandedTo = "RemandedTo",
+}
+
+// Link types callers create, and the type recorded on the other case. A case
+// that others are consolidated with is the lead case of the group.
+const caseLinkInverses: Partial<Record<CaseLinkType, CaseLinkType>> = {
+  [CaseLinkType.AppealOf]: CaseLinkType.AppealedIn,
+  [CaseLinkType.ConsolidatedWith]: CaseLinkType.ConsolidatedInto,
+  [CaseLinkType.RelatedTo]: CaseLinkType.RelatedTo,
+  [CaseLinkType.RemandedFrom]: CaseLinkType.RemandedTo,
+};
+
+// Both cases hold the link under the same ID
+interface CaseLink {
+  id: string;
+  type: CaseLinkType;
+  linkedCaseId: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
 class Case {
   id: string;
+  schemaVersion: number;
   caseNumber: string;
   title: string;
   description: string;
-  status: string;
+  caseType: CaseType;
+  court: string;
+  status: CaseStatus;
+  statusHistory: CaseStatusChange[];
   judgeId: string | null;
   lawyerIds: string[];
+  formerLawyerIds: string[];
+  recusals: JudgeRecusal[];
+  parties: CaseParty[];
+  links: CaseLink[];
   createdAt: Date;
   updatedAt: Date | null;
 
@@ -48,27 +279,93 @@ class Case {
     caseNumber: string,
     title: string,
     description: string,
+    caseType: CaseType,
+    court: string,
     judgeId: string | null = null,
     lawyerIds: string[] = []
   ) {
     this.id = uuidv4();
+    this.schemaVersion = CASE_SCHEMA_VERSION;
     this.caseNumber = caseNumber;
     this.title = title;
     this.description = description;
-    this.status = "Open";
+    this.caseType = caseType;
+    this.court = court;
+    this.status = CaseStatus.Filed;
+    this.statusHistory = [];
     this.judgeId = judgeId;
     this.lawyerIds = lawyerIds;
+    this.formerLawyerIds = [];
+    this.recusals = [];
+    this.parties = [];
+    this.links = [];
     this.createdAt = new Date();
   }
 }
 
+enum HearingStatus {
+  Scheduled = "Scheduled",
+  InProgress = "InProgress",
+  Adjourned = "Adjourned",
+  Cancelled = "Cancelled",
+  Completed = "Completed",
+  NoShow = "NoShow",
+}
+
+// Allowed hearing status transitions; the last four statuses are final
+const hearingStatusTransitions: Record<HearingStatus, HearingStatus[]> = {
+  [HearingStatus.Scheduled]: [
+    HearingStatus.InProgress,
+    HearingStatus.Adjourned,
+    HearingStatus.Cancelled,
+    HearingStatus.Completed,
+    HearingStatus.NoShow,
+  ],
+  [HearingStatus.InProgress]: [
+    HearingStatus.Adjourned,
+    HearingStatus.Completed,
+  ],
+  [HearingStatus.Adjourned]: [],
+  [HearingStatus.Cancelled]: [],
+  [HearingStatus.Completed]: [],
+  [HearingStatus.NoShow]: [],
+};
+
+// Statuses in which a hearing still occupies its slot
+const activeHearingStatuses: string[] = [
+  HearingStatus.Scheduled,
+  HearingStatus.InProgress,
+];
+
+interface HearingReschedule {
+  previousDate: Date;
+  previousEndDate: Date;
+  previousCourtroomId: string | null;
+  newDate: Date;
+  reason: string | null;
+  changedBy: string;
+  changedAt: Date;
+}
+
 class Hearing {
   id: string;
+  schemaVersion: number;
   caseId: string;
   judgeId: string;
   date: Date;
+  durationMinutes: number;
+  endDate: Date;
+  courtroomId: string | null;
   location: string;
   description: string;
+  status: HearingStatus;
+  statusReason: string | null;
+  outcome: string | null;
+  minutes: string | null;
+  rescheduleHistory: HearingReschedule[];
+  previousHearingId: string | null;
+  nextHearingId: string | null;
+  leadHearingId: string | null;
   createdAt: Date;
   updatedAt: Date | null;
 
@@ -77,885 +374,10876 @@ class Hearing {
     judgeId: string,
     date: Date,
     location: string,
-    description: string
+    description: string,
+    durationMinutes: number = DEFAULT_HEARING_DURATION_MINUTES,
+    courtroomId: string | null = null
   ) {
     this.id = uuidv4();
+    this.schemaVersion = HEARING_SCHEMA_VERSION;
     this.caseId = caseId;
     this.judgeId = judgeId;
     this.date = date;
+    this.durationMinutes = durationMinutes;
+    this.endDate = new Date(date.getTime() + durationMinutes * 60 * 1000);
+    this.courtroomId = courtroomId;
     this.location = location;
     this.description = description;
+    this.status = HearingStatus.Scheduled;
+    this.statusReason = null;
+    this.outcome = null;
+    this.minutes = null;
+    this.rescheduleHistory = [];
+    this.previousHearingId = null;
+    this.nextHearingId = null;
+    this.leadHearingId = null;
     this.createdAt = new Date();
   }
 }
 
-// Storage
-const userManager = StableBTreeMap<string, UserProfile>(0);
-const caseManager = StableBTreeMap<string, Case>(1);
-const hearingManager = StableBTreeMap<string, Hearing>(2);
+enum CourtroomFacility {
+  VideoLink = "VideoLink",
+  AudioRecording = "AudioRecording",
+  InterpreterBooth = "InterpreterBooth",
+  WheelchairAccess = "WheelchairAccess",
+  JuryBox = "JuryBox",
+  HoldingCell = "HoldingCell",
+}
 
-export default Server(() => {
-  const app = express();
-  app.use(express.json());
+class Courtroom {
+  id: string;
+  name: string;
+  building: string;
+  capacity: number;
+  facilities: CourtroomFacility[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date | null;
 
-  // Create new user
-  app.post("/users", (req, res) => {
-    if (
-      !req.body.username ||
-      !req.body.email ||
-      !req.body.password ||
-      !req.body.role
-    ) {
-      return res.status(400).json({
-        status: 400,
-        error: "Invalid payload: Ensure all required fields are provided.",
-      });
-    }
+  constructor(
+    name: string,
+    building: string,
+    capacity: number,
+    facilities: CourtroomFacility[] = []
+  ) {
+    this.id = uuidv4();
+    this.name = name;
+    this.building = building;
+    this.capacity = capacity;
+    this.facilities = facilities;
+    this.active = true;
+    this.createdAt = new Date();
+  }
+}
 
-    // Ensure username is unique
-    const existingUsername = userManager
-      .values()
-      .find((user) => user.username === req.body.username);
+enum HearingConflictType {
+  Judge = "Judge",
+  Location = "Location",
+  Lawyer = "Lawyer",
+}
 
-    if (existingUsername) {
-      return res.status(400).json({
-        error: "Username already exists: Ensure 'username' is unique.",
-      });
-    }
+interface HearingConflict {
+  hearing: Hearing;
+  conflictsOn: HearingConflictType[];
+  lawyerIds: string[];
+}
 
-    // Ensure password is secure
-    if (!isPasswordSecure(req.body.password)) {
-      return res.status(400).json({
-        error:
-          "Weak password: Ensure 'password' is at least 8 characters long, contains an uppercase letter, a lowercase letter, a digit, and a special character.",
-      });
-    }
+// Hearing scheduling settings
+const DEFAULT_HEARING_DURATION_MINUTES = 60;
+const MAX_HEARING_DURATION_MINUTES = 8 * 60;
 
-    // Validate the email format to ensure it's correct
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(req.body.email)) {
-      res.status(400).json({
-        error: "Invalid email format: Ensure 'email' is a valid email address.",
-      });
-      return;
-    }
+enum FilingType {
+  Pleading = "Pleading",
+  Motion = "Motion",
+  Affidavit = "Affidavit",
+  Exhibit = "Exhibit",
+  Order = "Order",
+  Notice = "Notice",
+  Other = "Other",
+}
 
-    // Check if the user already exists
-    const existingUser = userManager
-      .values()
-      .find((user) => user.email === req.body.email);
+interface FilingVersion {
+  version: number;
+  fileName: string;
+  mimeType: string;
+  chunkCount: number;
+  size: number | null;
+  expectedHash: string | null;
+  contentHash: string | null;
+  amendmentReason: string | null;
+  uploadedBy: string;
+  uploadedAt: Date;
+  completedAt: Date | null;
+}
 
-    if (existingUser) {
-      return res.status(400).json({
-        error: "User already exists: Ensure 'email' is unique.",
-      });
-    }
+class Filing {
+  id: string;
+  caseId: string;
+  title: string;
+  filingType: FilingType;
+  filedBy: string;
+  currentVersion: number | null;
+  versions: FilingVersion[];
+  createdAt: Date;
+  updatedAt: Date | null;
 
-    try {
-      const user = new UserProfile(
-        req.body.username,
-        req.body.email,
-        hashPassword(req.body.password),
-        req.body.role
-      );
+  constructor(
+    caseId: string,
+    title: string,
+    filingType: FilingType,
+    filedBy: string
+  ) {
+    this.id = uuidv4();
+    this.caseId = caseId;
+    this.title = title;
+    this.filingType = filingType;
+    this.filedBy = filedBy;
+    this.currentVersion = null;
+    this.versions = [];
+    this.createdAt = new Date();
+  }
+}
 
-      userManager.insert(user.id, user);
-      res.status(201).json({
-        message: "User created successfully.",
-        user: user,
-      });
-    } catch (error) {
-      console.error("Error creating user:", error);
-      res
-        .status(500)
-        .json({ error: "Server error occurred while creating the user." });
-    }
-  });
+enum OrderType {
+  Interim = "Interim",
+  Final = "Final",
+  Consent = "Consent",
+  Dismissal = "Dismissal",
+}
 
-  // Update user by ID
-  app.put("/users/:id", (req, res) => {
-    const userId = req.params.id;
+// Case status an order of each type disposes the case to, if any
+const orderDispositionStatuses: Partial<Record<OrderType, CaseStatus>> = {
+  [OrderType.Final]: CaseStatus.Judgment,
+  [OrderType.Dismissal]: CaseStatus.Dismissed,
+};
 
-    const userOpt = userManager.get(userId);
-    if ("None" in userOpt) {
-      return res.status(404).json({
-        error: `User with id ${userId} not found`,
-      });
-    }
+class CourtOrder {
+  id: string;
+  caseId: string;
+  hearingId: string | null;
+  judgeId: string;
+  orderType: OrderType;
+  text: string;
+  effectiveDate: Date;
+  complianceDeadline: Date | null;
+  issuedAt: Date;
 
-    const updatedUser = {
-      ...userOpt.Some,
-      ...req.body,
-      updatedAt: getCurrentDate(),
-    };
+  constructor(
+    caseId: string,
+    hearingId: string | null,
+    judgeId: string,
+    orderType: OrderType,
+    text: string,
+    effectiveDate: Date,
+    complianceDeadline: Date | null
+  ) {
+    this.id = uuidv4();
+    this.caseId = caseId;
+    this.hearingId = hearingId;
+    this.judgeId = judgeId;
+    this.orderType = orderType;
+    this.text = text;
+    this.effectiveDate = effectiveDate;
+    this.complianceDeadline = complianceDeadline;
+    this.issuedAt = new Date();
+  }
+}
 
-    userManager.insert(userId, updatedUser);
-    res.json(updatedUser);
-  });
+// Case events that can start a procedural deadline
+enum DeadlineTrigger {
+  CaseFiled = "CaseFiled",
+  ServiceEffected = "ServiceEffected",
+  StatusChanged = "StatusChanged",
+  OrderIssued = "OrderIssued",
+  DocumentFiled = "DocumentFiled",
+}
 
-  // Delete user by ID
-  app.delete("/users/:id", (req, res) => {
-    const userId = req.params.id;
+// Court days skip weekends and court holidays; calendar days count every day
+// but a deadline falling on a non-court day moves to the next court day
+enum DeadlineDayCount {
+  CourtDays = "CourtDays",
+  CalendarDays = "CalendarDays",
+}
 
-    const userOpt = userManager.get(userId);
-    if ("None" in userOpt) {
-      return res.status(404).json({
-        error: `User with id ${userId} not found`,
-      });
-    }
+class DeadlineRule {
+  id: string;
+  name: string;
+  description: string;
+  trigger: DeadlineTrigger;
+  triggerValue: string | null;
+  days: number;
+  dayCount: DeadlineDayCount;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date | null;
 
-    userManager.remove(userId);
-    res.json({
-      message: "User deleted successfully.",
-    });
-  });
+  constructor(
+    name: string,
+    description: string,
+    trigger: DeadlineTrigger,
+    triggerValue: string | null,
+    days: number,
+    dayCount: DeadlineDayCount
+  ) {
+    this.id = uuidv4();
+    this.name = name;
+    this.description = description;
+    this.trigger = trigger;
+    this.triggerValue = triggerValue;
+    this.days = days;
+    this.dayCount = dayCount;
+    this.active = true;
+    this.createdAt = new Date();
+  }
+}
 
-  // Get all users
-  app.get("/users", (req, res) => {
-    try {
-      const users = userManager.values();
+class CourtHoliday {
+  date: string;
+  name: string;
+  createdAt: Date;
 
-      if (users.length === 0) {
-        return res.status(404).json({
-          message: "No users found.",
-        });
-      }
+  constructor(date: string, name: string) {
+    this.date = date;
+    this.name = name;
+    this.createdAt = new Date();
+  }
+}
 
-      res.status(200).json({
-        message: "Users retrieved successfully.",
-        users: users,
-      });
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({
-        error: "Server error occurred while fetching users.",
-      });
-    }
-  });
+class CaseDeadline {
+  id: string;
+  caseId: string;
+  ruleId: string;
+  name: string;
+  description: string;
+  trigger: DeadlineTrigger;
+  triggeredAt: Date;
+  dueDate: Date;
+  createdAt: Date;
 
-  // Get user by ID
-  app.get("/users/:id", (req, res) => {
-    const userId = req.params.id;
+  constructor(
+    caseId: string,
+    rule: DeadlineRule,
+    triggeredAt: Date,
+    dueDate: Date
+  ) {
+    this.id = uuidv4();
+    this.caseId = caseId;
+    this.ruleId = rule.id;
+    this.name = rule.name;
+    this.description = rule.description;
+    this.trigger = rule.trigger;
+    this.triggeredAt = triggeredAt;
+    this.dueDate = dueDate;
+    this.createdAt = new Date();
+  }
+}
 
-    const userOpt = userManager.get(userId);
-    if ("None" in userOpt) {
-      res.status(400).json({
-        status: 400,
-        message: `Couldn't find user with id=${userId}`,
-      });
-    } else {
-      res.status(200).json({
-        message: "User retrieved successfully.",
-        user: userOpt.Some,
-      });
-    }
-  });
+const MAX_DEADLINE_DAYS = 3650;
 
-  // Create new case
-  app.post("/cases", (req, res) => {
-    if (!req.body.caseNumber || !req.body.title || !req.body.description) {
-      return res.status(400).json({
-        status: 400,
-        error: "Invalid payload: Ensure all required fields are provided.",
-      });
-    }
+// Events that raise a fee under the fee schedule
+enum FeeTrigger {
+  CaseFiled = "CaseFiled",
+  DocumentFiled = "DocumentFiled",
+}
 
-    // Optional validation for judgeId if provided
-    if (req.body.judgeId) {
-      const judgeOpt = userManager.get(req.body.judgeId);
-      if ("None" in judgeOpt) {
-        return res.status(400).json({
-          status: 400,
-          error: "Judge not found: Ensure 'judgeId' is a valid user ID.",
-        });
-      }
-    }
+// Actions an unpaid charge can hold up until it is paid or waived
+enum FeeGatedAction {
+  ScheduleHearing = "ScheduleHearing",
+  FileDocument = "FileDocument",
+  IssueOrder = "IssueOrder",
+}
 
-    // Optional validation for lawyerIds if provided
-    if (req.body.lawyerIds && req.body.lawyerIds.length > 0) {
-      const invalidLawyer = req.body.lawyerIds.find(
-        (lawyerId: string) => "None" in userManager.get(lawyerId)
-      );
+enum ChargeKind {
+  FilingFee = "FilingFee",
+  HearingFee = "HearingFee",
+  Fine = "Fine",
+  Other = "Other",
+}
 
-      if (invalidLawyer) {
-        return res.status(400).json({
-          status: 400,
-          error: "Lawyer not found: Ensure all 'lawyerIds' are valid user IDs.",
-        });
-      }
-    }
+// A fee schedule entry. 'appliesTo' narrows the rule to a case type
+// (CaseFiled) or filing type (DocumentFiled); null matches every one.
+// Amounts are whole numbers in the smallest currency unit.
+class FeeRule {
+  id: string;
+  name: string;
+  kind: ChargeKind;
+  trigger: FeeTrigger;
+  appliesTo: string | null;
+  amount: number;
+  requiredFor: FeeGatedAction[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date | null;
 
-    try {
-      const caseInstance = new Case(
-        req.body.caseNumber,
-        req.body.title,
-        req.body.description,
-        req.body.judgeId,
-        req.body.lawyerIds
-      );
+  constructor(
+    name: string,
+    kind: ChargeKind,
+    trigger: FeeTrigger,
+    appliesTo: string | null,
+    amount: number,
+    requiredFor: FeeGatedAction[]
+  ) {
+    this.id = uuidv4();
+    this.name = name;
+    this.kind = kind;
+    this.trigger = trigger;
+    this.appliesTo = appliesTo;
+    this.amount = amount;
+    this.requiredFor = requiredFor;
+    this.active = true;
+    this.createdAt = new Date();
+  }
+}
 
-      caseManager.insert(caseInstance.id, caseInstance);
-      res.status(201).json({
-        message: "Case created successfully.",
-        case: caseInstance,
-      });
-    } catch (error) {
-      console.error("Error creating case:", error);
-      res
-        .status(500)
-        .json({ error: "Server error occurred while creating the case." });
-    }
-  });
+interface ChargePayment {
+  id: string;
+  amount: number;
+  method: string | null;
+  reference: string | null;
+  recordedBy: string;
+  recordedAt: Date;
+}
+
+interface ChargeWaiver {
+  reason: string;
+  waivedBy: string;
+  waivedAt: Date;
+}
+
+// A fee or fine owed on a case, with the payments made against it
+class CaseCharge {
+  id: string;
+  caseId: string;
+  kind: ChargeKind;
+  description: string;
+  amount: number;
+  feeRuleId: string | null;
+  filingId: string | null;
+  requiredFor: FeeGatedAction[];
+  payments: ChargePayment[];
+  waiver: ChargeWaiver | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date | null;
+
+  constructor(
+    caseId: string,
+    kind: ChargeKind,
+    description: string,
+    amount: number,
+    requiredFor: FeeGatedAction[],
+    createdBy: string | null,
+    feeRuleId: string | null = null,
+    filingId: string | null = null
+  ) {
+    this.id = uuidv4();
+    this.caseId = caseId;
+    this.kind = kind;
+    this.description = description;
+    this.amount = amount;
+    this.feeRuleId = feeRuleId;
+    this.filingId = filingId;
+    this.requiredFor = requiredFor;
+    this.payments = [];
+    this.waiver = null;
+    this.createdBy = createdBy;
+    this.createdAt = new Date();
+  }
+}
+
+enum NotificationEvent {
+  CaseAssigned = "CaseAssigned",
+  HearingScheduled = "HearingScheduled",
+  HearingChanged = "HearingChanged",
+  CaseStatusChanged = "CaseStatusChanged",
+  FilingSubmitted = "FilingSubmitted",
+}
+
+class Notification {
+  id: string;
+  userId: string;
+  event: NotificationEvent;
+  caseId: string;
+  hearingId: string | null;
+  message: string;
+  readAt: Date | null;
+  createdAt: Date;
+
+  constructor(
+    userId: string,
+    event: NotificationEvent,
+    caseId: string,
+    hearingId: string | null,
+    message: string
+  ) {
+    this.id = uuidv4();
+    this.userId = userId;
+    this.event = event;
+    this.caseId = caseId;
+    this.hearingId = hearingId;
+    this.message = message;
+    this.readAt = null;
+    this.createdAt = getCurrentDate();
+  }
+}
+
+// Events a user has switched on or off; events not listed are on
+type NotificationPreferences = Partial<Record<NotificationEvent, boolean>>;
+
+// Oldest notifications are dropped once an inbox holds this many
+const MAX_NOTIFICATIONS_PER_USER = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HearingSlot {
+  date: Date;
+  durationMinutes: number;
+  courtroom: Courtroom;
+}
+
+// A new user payload after validation. Imports may carry a password hash
+// instead of a password, flagged by 'passwordIsHash'.
+interface NewUserFields {
+  username: string;
+  email: string;
+  password: string;
+  passwordIsHash: boolean;
+  role: UserRole;
+}
+
+// The editable fields of a user after validation, with unchanged fields
+// taken from the stored user. 'password' is only set when it changes.
+interface UserUpdateFields {
+  username: string;
+  email: string;
+  password: string | null;
+  role: UserRole;
+}
+
+// A new case payload after validation
+interface NewCaseFields {
+  title: string;
+  description: string;
+  caseType: CaseType;
+  court: string | null;
+  caseNumber: string | null;
+  judgeId: string | null;
+  lawyerIds: string[];
+}
+
+// A new hearing payload after validation, with its slot and case
+interface NewHearingFields extends HearingSlot {
+  caseRecord: Case;
+  judgeId: string;
+  description: string;
+}
+
+// The request fields a hearing slot is read from
+interface HearingSlotInput {
+  date?: unknown;
+  durationMinutes?: unknown;
+  courtroomId?: unknown;
+}
+
+// Error returned by the validators shared between routes and the importer
+interface ValidationError {
+  status: number;
+  error: string;
+  details?: string;
+  // The records behind a rejection, such as conflicts or unpaid charges
+  conflicts?: object[];
+  charges?: object[];
+  allowedTransitions?: string[];
+}
+
+// The filters GET /cases and the Candid listCases method share
+interface CaseFilter {
+  statuses: string[] | null;
+  judgeId: string | null;
+  lawyerId: string | null;
+  filedRange: { from: Date | null; to: Date | null };
+  q: unknown;
+}
+
+// Records accepted earlier in an import, so later rows can refer to them
+// before anything is saved (as in a dry run)
+interface ImportBatch {
+  users: Map<string, UserProfile>;
+  cases: Map<string, Case>;
+  hearingIds: Set<string>;
+}
+
+enum ImportEntity {
+  User = "user",
+  Case = "case",
+  Hearing = "hearing",
+}
+
+enum ImportFormat {
+  Csv = "csv",
+  Ndjson = "ndjson",
+}
+
+interface ImportRow {
+  row: number;
+  record: Record<string, unknown> | null;
+  error: string | null;
+}
+
+interface ImportRowResult {
+  row: number;
+  entity: string | null;
+  status: "created" | "valid" | "error";
+  id: string | null;
+  error?: string;
+  details?: string;
+}
+
+// Rows per import request, to stay inside the per-call instruction limit.
+// Hashing a plain-text password costs as much as hundreds of other rows, so
+// user rows that carry one have a much lower limit; exported users carry a
+// 'passwordHash' instead.
+const MAX_IMPORT_ROWS = 1000;
+const MAX_IMPORT_PASSWORD_ROWS = 10;
+
+// Upgrades a stored record from the previous schema version to 'version'.
+// Records on older versions may lack fields, so 'up' sees a partial record.
+interface Migration<T> {
+  version: number;
+  description: string;
+  up: (record: Partial<T>) => Partial<T>;
+}
+
+// How far the background migration of one kind of record has got
+interface MigrationProgress {
+  entity: string;
+  targetVersion: number;
+  nextIndex: number;
+  scanned: number;
+  migrated: number;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+enum ReportName {
+  ClearanceRate = "clearance-rate",
+  PendingAge = "pending-age",
+  TimeToDisposition = "time-to-disposition",
+  HearingsPerCase = "hearings-per-case",
+  AdjournmentRate = "adjournment-rate",
+  JudgeCaseload = "judge-caseload",
+  CourtroomUtilisation = "courtroom-utilisation",
+}
+
+type ReportValue = string | number | null;
+
+// Reports are tables so they can be sent as JSON or CSV; the summary is
+// only included in JSON
+interface Report {
+  columns: string[];
+  rows: Record<string, ReportValue>[];
+  summary: Record<string, ReportValue>;
+}
+
+interface ReportFilter {
+  from: Date;
+  to: Date;
+  judgeId: string | null;
+}
+
+interface ReportDefinition {
+  description: string;
+  build: (filter: ReportFilter) => Report;
+}
+
+// Reports cover the last year unless a range is given, and at most five
+const DEFAULT_REPORT_MONTHS = 12;
+const MAX_REPORT_MONTHS = 60;
+
+// Sitting time a courtroom offers on each court day, for utilisation
+const COURT_SITTING_MINUTES_PER_DAY = 6 * 60;
+
+const pendingAgeBuckets: { label: string; maxDays: number }[] = [
+  { label: "0-30", maxDays: 30 },
+  { label: "31-90", maxDays: 90 },
+  { label: "91-180", maxDays: 180 },
+  { label: "181-365", maxDays: 365 },
+  { label: "366+", maxDays: Infinity },
+];
+
+// Hearings that have run their course, for the adjournment rate
+const concludedHearingStatuses: string[] = [
+  HearingStatus.Completed,
+  HearingStatus.Adjourned,
+  HearingStatus.NoShow,
+];
+
+// Where a deactivated user's open cases and upcoming hearings go
+interface ReassignmentPlan {
+  cases: { before: Case; after: Case }[];
+  hearings: { before: Hearing; after: Hearing }[];
+}
+
+interface MigrationTarget<T extends { schemaVersion: number }> {
+  entity: string;
+  records: StableMap<string, T>;
+  migrations: Migration<T>[];
+  version: number;
+  save: (record: T) => void;
+}
+
+// Filing upload limits
+const MAX_FILING_CHUNK_BYTES = 1_000_000;
+const MAX_FILING_CHUNK_COUNT = 500;
+
+interface PageQuery {
+  limit: number;
+  cursor: [unknown, string] | null;
+  sortBy: string;
+  order: "asc" | "desc";
+}
+
+interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+}
+
+// List endpoint pagination settings
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
+class Session {
+  tokenHash: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+
+  constructor(
+    tokenHash: string,
+    userId: string,
+    createdAt: Date,
+    ttlMs: number
+  ) {
+    this.tokenHash = tokenHash;
+    this.userId = userId;
+    this.createdAt = createdAt;
+    this.expiresAt = new Date(createdAt.getTime() + ttlMs);
+  }
+}
+
+enum CalendarFeedScope {
+  Judge = "Judge",
+  Lawyer = "Lawyer",
+  Case = "Case",
+  Courtroom = "Courtroom",
+}
+
+// A read-only token for one calendar feed. Calendar apps cannot send
+// headers, so the token travels in the feed URL. It does not expire, is
+// stored hashed like session tokens and only unlocks the feed it was
+// issued for.
+class CalendarFeed {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  scope: CalendarFeedScope;
+  targetId: string;
+  createdAt: Date;
+
+  constructor(
+    tokenHash: string,
+    userId: string,
+    scope: CalendarFeedScope,
+    targetId: string
+  ) {
+    this.id = uuidv4();
+    this.tokenHash = tokenHash;
+    this.userId = userId;
+    this.scope = scope;
+    this.targetId = targetId;
+    this.createdAt = new Date();
+  }
+}
+
+enum Permission {
+  ManageUsers = "ManageUsers",
+  ViewUsers = "ViewUsers",
+  CreateCase = "CreateCase",
+  ViewAllCases = "ViewAllCases",
+  UpdateCaseStatus = "UpdateCaseStatus",
+  AssignCaseParticipants = "AssignCaseParticipants",
+  ScheduleHearing = "ScheduleHearing",
+  ViewAllHearings = "ViewAllHearings",
+  ViewJudgeDockets = "ViewJudgeDockets",
+  ViewLawyerDockets = "ViewLawyerDockets",
+  ViewAuditLog = "ViewAuditLog",
+  ManageCourtrooms = "ManageCourtrooms",
+  FileDocuments = "FileDocuments",
+  AdministerSystem = "AdministerSystem",
+  IssueOrders = "IssueOrders",
+  ManageCourtCalendar = "ManageCourtCalendar",
+  ManageFees = "ManageFees",
+  ViewReports = "ViewReports",
+}
+
+// Permission matrix: what each role may do. Case-scoped actions are further
+// limited to cases the caller takes part in unless they hold ViewAllCases.
+const rolePermissions: Record<UserRole, Permission[]> = {
+  [UserRole.CourtStaff]: Object.values(Permission),
+  [UserRole.Judge]: [
+    Permission.IssueOrders,
+    Permission.FileDocuments,
+    Permission.ViewUsers,
+    Permission.ViewAllCases,
+    Permission.UpdateCaseStatus,
+    Permission.ScheduleHearing,
+    Permission.ViewAllHearings,
+    Permission.ViewJudgeDockets,
+    Permission.ViewLawyerDockets,
+  ],
+  [UserRole.Lawyer]: [Permission.CreateCase, Permission.FileDocuments],
+  [UserRole.Litigant]: [],
+};
+
+enum AuditAction {
+  Create = "Create",
+  Update = "Update",
+  Delete = "Delete",
+  Login = "Login",
+  Logout = "Logout",
+  Export = "Export",
+}
+
+enum AuditEntityType {
+  User = "User",
+  Case = "Case",
+  Hearing = "Hearing",
+  Courtroom = "Courtroom",
+  Filing = "Filing",
+  Order = "Order",
+  DeadlineRule = "DeadlineRule",
+  CourtHoliday = "CourtHoliday",
+  Deadline = "Deadline",
+  NotificationPreferences = "NotificationPreferences",
+  Setting = "Setting",
+  JudgeUnavailability = "JudgeUnavailability",
+  DeclaredRelationship = "DeclaredRelationship",
+  FeeRule = "FeeRule",
+  Charge = "Charge",
+  CalendarFeed = "CalendarFeed",
+}
+
+interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Audit entries are only ever appended; there is no route that edits or
+// removes them
+class AuditEntry {
+  id: string;
+  sequence: number;
+  actorId: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: AuditFieldChange[];
+  reason: string | null;
+  timestamp: Date;
+
+  constructor(
+    sequence: number,
+    actorId: string | null,
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    changes: AuditFieldChange[],
+    reason: string | null
+  ) {
+    this.id = uuidv4();
+    this.sequence = sequence;
+    this.actorId = actorId;
+    this.action = action;
+    this.entityType = entityType;
+    this.entityId = entityId;
+    this.changes = changes;
+    this.reason = reason;
+    this.timestamp = getCurrentDate();
+  }
+}
+
+// Fields never copied into audit diffs
+const AUDIT_REDACTED_FIELDS = ["password"];
+
+// Authentication settings
+const PASSWORD_HASH_ALGORITHM = "pbkdf2_sha256";
+const PASSWORD_HASH_ITERATIONS = 10_000;
+const PASSWORD_SALT_BYTES = 16;
+const SESSION_TOKEN_BYTES = 32;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Schema migrations, oldest first. Each one upgrades a record from the
+// previous version to its own; records written before versioning are
+// version 0. Migrations must not change indexed fields.
+const userMigrations: Migration<UserProfile>[] = [
+  {
+    version: 1,
+    description: "Add schema version and missing updatedAt",
+    up: (user) => ({ ...user, updatedAt: user.updatedAt ?? null }),
+  },
+  {
+    version: 2,
+    description: "Add the active flag for deactivated accounts",
+    up: (user) => ({
+      ...user,
+      active: user.active ?? true,
+      deactivatedAt: user.deactivatedAt ?? null,
+    }),
+  },
+  {
+    version: 3,
+    description: "Add the Internet Computer principal for Candid callers",
+    up: (user) => ({ ...user, principal: user.principal ?? null }),
+  },
+];
+
+const caseMigrations: Migration<Case>[] = [
+  {
+    version: 1,
+    description:
+      "Map free-text status onto the status lifecycle and fill in fields added since the first release",
+    up: (caseRecord) => ({
+      ...caseRecord,
+      caseType: caseRecord.caseType ?? CaseType.Civil,
+      court: caseRecord.court ?? getCaseNumberFormat().defaultCourt,
+      status: parseLegacyCaseStatus(caseRecord.status),
+      statusHistory: caseRecord.statusHistory ?? [],
+      formerLawyerIds: caseRecord.formerLawyerIds ?? [],
+      recusals: caseRecord.recusals ?? [],
+      parties: caseRecord.parties ?? [],
+      links: caseRecord.links ?? [],
+      updatedAt: caseRecord.updatedAt ?? null,
+    }),
+  },
+];
+
+const hearingMigrations: Migration<Hearing>[] = [
+  {
+    version: 1,
+    description: "Fill in duration, courtroom, status and history fields",
+    up: (hearing) => {
+      const durationMinutes =
+        hearing.durationMinutes ?? DEFAULT_HEARING_DURATION_MINUTES;
+      return {
+        ...hearing,
+        durationMinutes: durationMinutes,
+        endDate:
+          hearing.endDate ??
+          new Date(
+            new Date(hearing.date ?? 0).getTime() + durationMinutes * 60000
+          ),
+        courtroomId: hearing.courtroomId ?? null,
+        status: hearing.status ?? HearingStatus.Scheduled,
+        statusReason: hearing.statusReason ?? null,
+        outcome: hearing.outcome ?? null,
+        minutes: hearing.minutes ?? null,
+        rescheduleHistory: hearing.rescheduleHistory ?? [],
+        previousHearingId: hearing.previousHearingId ?? null,
+        nextHearingId: hearing.nextHearingId ?? null,
+        leadHearingId: hearing.leadHearingId ?? null,
+        updatedAt: hearing.updatedAt ?? null,
+      };
+    },
+  },
+];
+
+// Storage. The primary records are read through the managers, which upgrade
+// old records to the current schema; the raw maps are only for migrations.
+const userRecords = StableBTreeMap<string, UserProfile>(0);
+const caseRecords = StableBTreeMap<string, Case>(1);
+const hearingRecords = StableBTreeMap<string, Hearing>(2);
+const userManager = withMigrations(userRecords, userMigrations);
+const caseManager = withMigrations(caseRecords, caseMigrations);
+const hearingManager = withMigrations(hearingRecords, hearingMigrations);
+const sessionManager = StableBTreeMap<string, Session>(3);
+const auditManager = StableBTreeMap<string, AuditEntry>(4);
+const courtroomManager = StableBTreeMap<string, Courtroom>(5);
+const filingManager = StableBTreeMap<string, Filing>(6);
+const filingChunkManager = StableBTreeMap<string, string>(7);
+const orderManager = StableBTreeMap<string, CourtOrder>(16);
+const deadlineRuleManager = StableBTreeMap<string, DeadlineRule>(17);
+const courtHolidayManager = StableBTreeMap<string, CourtHoliday>(18);
+const caseDeadlineManager = StableBTreeMap<string, CaseDeadline[]>(19);
+const notificationManager = StableBTreeMap<string, Notification[]>(20);
+const notificationPreferenceManager = StableBTreeMap<
+  string,
+  NotificationPreferences
+>(21);
+const caseNumberFormatManager = StableBTreeMap<string, CaseNumberFormat>(22);
+const caseNumberSequenceManager = StableBTreeMap<string, number>(23);
+const judgeUnavailabilityManager = StableBTreeMap<
+  string,
+  JudgeUnavailability[]
+>(24);
+const judgeAssignmentState = StableBTreeMap<string, string>(25);
+const migrationProgressManager = StableBTreeMap<string, MigrationProgress>(27);
+const feeRuleManager = StableBTreeMap<string, FeeRule>(28);
+const caseChargeManager = StableBTreeMap<string, CaseCharge[]>(29);
+const calendarFeedManager = StableBTreeMap<string, CalendarFeed>(31);
+const declaredRelationshipManager = StableBTreeMap<
+  string,
+  DeclaredRelationship[]
+>(26);
+
+type StableMap<K, V> = ReturnType<typeof StableBTreeMap<K, V>>;
+
+// Secondary indexes, kept in step with the maps above by the save/remove
+// helpers so lookups do not have to scan every record
+const judgeCaseIndex = StableBTreeMap<string, string[]>(8);
+const lawyerCaseIndex = StableBTreeMap<string, string[]>(9);
+const caseHearingIndex = StableBTreeMap<string, string[]>(10);
+const judgeHearingIndex = StableBTreeMap<string, string[]>(11);
+const usernameIndex = StableBTreeMap<string, string>(12);
+const emailIndex = StableBTreeMap<string, string>(13);
+const principalIndex = StableBTreeMap<string, string>(30);
+const caseNumberIndex = StableBTreeMap<string, string[]>(14);
+const indexMetadata = StableBTreeMap<string, number>(15);
+
+// Bump when an index is added or changes shape so it is rebuilt on upgrade
+const INDEX_VERSION = 2;
+
+// Records scanned per background migration batch, to stay well inside the
+// per-call instruction limit
+const MIGRATION_BATCH_SIZE = 200;
+const MAX_MIGRATION_BATCH_SIZE = 1000;
+
+// Candid types for the typed canister interface. Dates are ISO 8601 text.
+const CandidCase = Record({
+  id: text,
+  caseNumber: text,
+  title: text,
+  description: text,
+  caseType: text,
+  court: text,
+  status: text,
+  judgeId: Opt(text),
+  lawyerIds: Vec(text),
+  createdAt: text,
+  updatedAt: Opt(text),
+});
+
+const CandidHearing = Record({
+  id: text,
+  caseId: text,
+  judgeId: text,
+  date: text,
+  endDate: text,
+  durationMinutes: nat32,
+  courtroomId: Opt(text),
+  location: text,
+  description: text,
+  status: text,
+  leadHearingId: Opt(text),
+});
+
+const CandidConflictOfInterest = Record({
+  type: text,
+  userId: text,
+  details: text,
+});
+
+// The HTTP error body, without the records behind it
+const CandidError = Record({
+  status: nat16,
+  error: text,
+  details: Opt(text),
+});
+
+const CandidCaseResult = Variant({ Ok: CandidCase, Err: CandidError });
+
+const CandidCasePageResult = Variant({
+  Ok: Record({
+    cases: Vec(CandidCase),
+    total: nat32,
+    nextCursor: Opt(text),
+  }),
+  Err: CandidError,
+});
+
+const CandidHearingResult = Variant({
+  Ok: Record({
+    hearing: CandidHearing,
+    jointHearings: Vec(CandidHearing),
+    conflictingHearingIds: Vec(text),
+  }),
+  Err: CandidError,
+});
+
+const CandidJudgeAssignmentResult = Variant({
+  Ok: Record({
+    case: CandidCase,
+    conflicts: Vec(CandidConflictOfInterest),
+  }),
+  Err: CandidError,
+});
+
+// Candid methods served alongside the HTTP API. Callers are identified by
+// the principal linked to their account (PUT /users/:id/principal), and
+// each method runs the same checks and storage logic as its HTTP route.
+const candidMethods = {
+  getCase: query([text], CandidCaseResult, (caseId) =>
+    callCandid(null, (caller) =>
+      toCandidResult(findViewableCase(caller, caseId), toCandidCase)
+    )
+  ),
+  listCases: query(
+    [
+      Record({
+        status: Opt(text),
+        judgeId: Opt(text),
+        lawyerId: Opt(text),
+        q: Opt(text),
+        limit: Opt(nat32),
+        cursor: Opt(text),
+        sortBy: Opt(text),
+        order: Opt(text),
+      }),
+    ],
+    CandidCasePageResult,
+    (args) =>
+      callCandid(null, (caller) => {
+        const pageQuery = parsePageQuery(
+          {
+            limit: fromOpt(args.limit)?.toString(),
+            cursor: fromOpt(args.cursor) ?? undefined,
+            sortBy: fromOpt(args.sortBy) ?? undefined,
+            order: fromOpt(args.order) ?? undefined,
+          },
+          ["createdAt", "updatedAt", "caseNumber", "title", "status"],
+          "createdAt"
+        );
+        if (typeof pageQuery === "string") {
+          return { Err: toCandidError({ status: 400, error: pageQuery }) };
+        }
+
+        const status = fromOpt(args.status);
+        const page = paginate(
+          findCases(caller, {
+            statuses: status ? status.split(",") : null,
+            judgeId: fromOpt(args.judgeId),
+            lawyerId: fromOpt(args.lawyerId),
+            filedRange: { from: null, to: null },
+            q: fromOpt(args.q) ?? undefined,
+          }),
+          pageQuery
+        );
+        return {
+          Ok: {
+            cases: page.items.map(toCandidCase),
+            total: page.total,
+            nextCursor: toOpt(page.nextCursor),
+          },
+        };
+      })
+  ),
+  scheduleHearing: update(
+    [
+      Record({
+        caseId: text,
+        judgeId: text,
+        date: text,
+        durationMinutes: Opt(nat32),
+        courtroomId: text,
+        description: text,
+        allowConflicts: Opt(bool),
+        propagateToConsolidated: Opt(bool),
+      }),
+    ],
+    CandidHearingResult,
+    (args) =>
+      callCandid(Permission.ScheduleHearing, (caller) =>
+        toCandidResult(
+          scheduleHearing(caller, {
+            caseId: args.caseId,
+            judgeId: args.judgeId,
+            date: args.date,
+            durationMinutes: fromOpt(args.durationMinutes) ?? undefined,
+            courtroomId: args.courtroomId,
+            description: args.description,
+            allowConflicts: fromOpt(args.allowConflicts) === true,
+            propagateToConsolidated:
+              fromOpt(args.propagateToConsolidated) === true,
+          }),
+          (result) => ({
+            hearing: toCandidHearing(result.hearing),
+            jointHearings: result.jointHearings.map(toCandidHearing),
+            conflictingHearingIds: result.conflicts.map((c) => c.hearing.id),
+          })
+        )
+      )
+  ),
+  assignJudge: update(
+    [Record({ caseId: text, judgeId: text, allowConflicts: Opt(bool) })],
+    CandidJudgeAssignmentResult,
+    (args) =>
+      callCandid(Permission.AssignCaseParticipants, (caller) =>
+        toCandidResult(
+          assignJudge(
+            caller,
+            args.caseId,
+            args.judgeId,
+            fromOpt(args.allowConflicts) === true
+          ),
+          (result) => ({
+            case: toCandidCase(result.case),
+            conflicts: result.conflicts,
+          })
+        )
+      )
+  ),
+  updateCaseStatus: update(
+    [Record({ caseId: text, status: text, reason: Opt(text) })],
+    CandidCaseResult,
+    (args) =>
+      callCandid(Permission.UpdateCaseStatus, (caller) =>
+        toCandidResult(
+          updateCaseStatus(
+            caller,
+            args.caseId,
+            args.status,
+            fromOpt(args.reason)
+          ),
+          toCandidCase
+        )
+      )
+  ),
+};
+
+export default Server(() => {
+  // Runs on install and after every upgrade
+  const indexVersionOpt = indexMetadata.get("version");
+  if ("None" in indexVersionOpt || indexVersionOpt.Some !== INDEX_VERSION) {
+    rebuildIndexes();
+  }
+
+  // Timers do not survive an upgrade, so restart any unfinished migration
+  if (getMigrationTargets().some((t) => !getMigrationProgress(t).completedAt)) {
+    scheduleMigrationBatch();
+  }
+
+  const app = express();
+  // Raised from the 100kb default so base64 filing chunks fit in one request
+  app.use(express.json({ limit: "2mb" }));
+
+  // Resolve the caller from the session token so every route knows who is calling
+  app.use((req, res, next) => {
+    res.locals.caller = resolveCaller(req.headers.authorization);
+    next();
+  });
+
+  // Log in and issue a session token
+  app.post("/auth/login", requireEntropy, (req, res) => {
+    const { username, email, password } = req.body;
+
+    if ((!username && !email) || !password) {
+      return res.status(400).json({
+        status: 400,
+        error:
+          "Invalid payload: Provide 'password' and either 'username' or 'email'.",
+      });
+    }
+
+    const user = username
+      ? findUserByUsername(username)
+      : findUserByEmail(email);
+
+    if (!user || !verifyPassword(password, user.password)) {
+      return res.status(401).json({
+        status: 401,
+        error: "Invalid credentials",
+      });
+    }
+
+    if (!user.active) {
+      return forbidden(res, "This account has been deactivated");
+    }
+
+    try {
+      // Upgrade legacy password hashes now that we know the plain password
+      if (needsRehash(user.password)) {
+        const rehashedUser = { ...user, password: hashPassword(password) };
+        saveUser(rehashedUser);
+        recordAudit(
+          user.id,
+          AuditAction.Update,
+          AuditEntityType.User,
+          user.id,
+          user,
+          rehashedUser
+        );
+      }
+
+      pruneExpiredSessions();
+      const token = generateSessionToken();
+      const session = new Session(
+        hashSessionToken(token),
+        user.id,
+        getCurrentDate(),
+        SESSION_TTL_MS
+      );
+
+      sessionManager.insert(session.tokenHash, session);
+      recordAudit(
+        user.id,
+        AuditAction.Login,
+        AuditEntityType.User,
+        user.id,
+        null,
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Login successful.",
+        token: token,
+        expiresAt: session.expiresAt,
+        user: toPublicUser(user),
+      });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({
+        status: 500,
+        error: "Server error occurred while logging in.",
+      });
+    }
+  });
+
+  // Log out and revoke the current session token
+  app.post("/auth/logout", (req, res) => {
+    const token = getBearerToken(req.headers.authorization);
+    if (!token) {
+      return res.status(401).json({
+        status: 401,
+        error: "Missing session token",
+        details: "Provide an 'Authorization: Bearer <token>' header",
+      });
+    }
+
+    const tokenHash = hashSessionToken(token);
+    const sessionOpt = sessionManager.get(tokenHash);
+    if ("None" in sessionOpt) {
+      return res.status(401).json({
+        status: 401,
+        error: "Invalid or expired session token",
+      });
+    }
+
+    sessionManager.remove(tokenHash);
+    recordAudit(
+      sessionOpt.Some.userId,
+      AuditAction.Logout,
+      AuditEntityType.User,
+      sessionOpt.Some.userId,
+      null,
+      null
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Logout successful.",
+    });
+  });
+
+  // Create new user (open only while bootstrapping the first account)
+  app.post(
+    "/users",
+    allowBootstrap(authorize(Permission.ManageUsers)),
+    requireEntropy,
+    (req, res) => {
+      const fields = validateNewUser(req.body);
+      if ("error" in fields) {
+        return res.status(fields.status).json(fields);
+      }
+
+      try {
+        const user = new UserProfile(
+          fields.username,
+          fields.email,
+          hashPassword(fields.password),
+          fields.role
+        );
+
+        saveUser(user);
+        recordAudit(
+          getCaller(res)?.id ?? null,
+          AuditAction.Create,
+          AuditEntityType.User,
+          user.id,
+          null,
+          user
+        );
+        res.status(201).json({
+          message: "User created successfully.",
+          user: toPublicUser(user),
+        });
+      } catch (error) {
+        console.error("Error creating user:", error);
+        res
+          .status(500)
+          .json({ error: "Server error occurred while creating the user." });
+      }
+    }
+  );
+
+  // Update user by ID
+  app.put(
+    "/users/:id",
+    authorize(Permission.ManageUsers, true),
+    requireEntropy,
+    (req, res) => {
+      const userId = req.params.id;
+
+      const userOpt = userManager.get(userId);
+      if ("None" in userOpt) {
+        return res.status(404).json({
+          error: `User with id ${userId} not found`,
+        });
+      }
+
+      const fields = validateUserUpdate(req.body, userOpt.Some);
+      if ("error" in fields) {
+        return res.status(fields.status).json(fields);
+      }
+
+      // Users editing their own profile may not change their role
+      const caller = getCaller(res)!;
+      if (
+        !hasPermission(caller, Permission.ManageUsers) &&
+        fields.role !== userOpt.Some.role
+      ) {
+        return forbidden(res, "Only court staff can change a user's role");
+      }
+
+      // Only the whitelisted fields change; deactivation and principals have
+      // their own routes. Never store a new password in plain text.
+      const updatedUser: UserProfile = {
+        ...userOpt.Some,
+        username: fields.username,
+        email: fields.email,
+        role: fields.role,
+        password:
+          fields.password !== null
+            ? hashPassword(fields.password)
+            : userOpt.Some.password,
+        updatedAt: getCurrentDate(),
+      };
+
+      saveUser(updatedUser);
+      recordAudit(
+        caller.id,
+        AuditAction.Update,
+        AuditEntityType.User,
+        userId,
+        userOpt.Some,
+        updatedUser
+      );
+      res.json(toPublicUser(updatedUser));
+    }
+  );
+
+  // Deactivate a user. The account is kept so cases, hearings and the audit
+  // log still refer to it. A user still assigned to open cases or upcoming
+  // hearings is only deactivated with a plan handing their work over:
+  // 'reassignTo' for everything, or 'reassignments' mapping case IDs to
+  // replacements.
+  app.delete("/users/:id", authorize(Permission.ManageUsers), (req, res) => {
+    const userId = req.params.id;
+    const reassignTo = req.body?.reassignTo ?? null;
+    const reassignments = req.body?.reassignments ?? {};
+
+    const userOpt = userManager.get(userId);
+    if ("None" in userOpt) {
+      return res.status(404).json({
+        error: `User with id ${userId} not found`,
+      });
+    }
+
+    const user = userOpt.Some;
+    if (!user.active) {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid operation",
+        details: "This user has already been deactivated",
+      });
+    }
+
+    if (
+      typeof reassignments !== "object" ||
+      Array.isArray(reassignments) ||
+      Object.values(reassignments).some((id) => typeof id !== "string") ||
+      (reassignTo !== null && typeof reassignTo !== "string")
+    ) {
+      return res.status(400).json({
+        status: 400,
+        error:
+          "Invalid reassignment plan: Ensure 'reassignTo' is a user ID and 'reassignments' maps case IDs to user IDs.",
+      });
+    }
+
+    const plan = planReassignments(user, reassignTo, reassignments);
+    if ("error" in plan) {
+      return res.status(plan.status).json(plan);
+    }
+
+    const conflicts = plan.cases.flatMap(({ before, after }) =>
+      findNewConflictsOfInterest(before, after)
+    );
+    const hearingConflicts = plan.hearings.flatMap(({ after }) =>
+      findHearingConflicts(after).filter((c) =>
+        c.conflictsOn.includes(HearingConflictType.Judge)
+      )
+    );
+    if (
+      (conflicts.length > 0 || hearingConflicts.length > 0) &&
+      req.body?.allowConflicts !== true
+    ) {
+      return res.status(409).json({
+        status: 409,
+        error: "Conflict of interest",
+        details:
+          "The reassignment plan creates conflicts. Change the plan or send 'allowConflicts: true' to proceed anyway.",
+        conflicts: conflicts,
+        hearingConflicts: hearingConflicts,
+      });
+    }
+
+    try {
+      const caller = getCaller(res)!;
+      const reason = `Reassigned from deactivated user ${user.username}`;
+      for (const { before, after } of plan.cases) {
+        saveCase(after);
+        recordAudit(
+          caller.id,
+          AuditAction.Update,
+          AuditEntityType.Case,
+          after.id,
+          before,
+          after,
+          reason
+        );
+        notifyUsers(
+          [after.judgeId, ...after.lawyerIds].filter(
+            (id) => id !== before.judgeId && !before.lawyerIds.includes(id!)
+          ),
+          NotificationEvent.CaseAssigned,
+          after.id,
+          null,
+          `You have been assigned to case ${after.caseNumber}`,
+          caller.id
+        );
+      }
+
+      for (const { before, after } of plan.hearings) {
+        saveHearing(after);
+        recordAudit(
+          caller.id,
+          AuditAction.Update,
+          AuditEntityType.Hearing,
+          after.id,
+          before,
+          after,
+          reason
+        );
+        notifyUsers(
+          [after.judgeId],
+          NotificationEvent.HearingChanged,
+          after.caseId,
+          after.id,
+          `You will preside over the hearing on ${new Date(
+            after.date
+          ).toISOString()}`,
+          caller.id
+        );
+      }
+
+      const deactivatedUser: UserProfile = {
+        ...user,
+        active: false,
+        deactivatedAt: getCurrentDate(),
+        updatedAt: getCurrentDate(),
+      };
+      saveUser(deactivatedUser);
+      revokeSessions(userId);
+      revokeCalendarFeeds(userId);
+      recordAudit(
+        caller.id,
+        AuditAction.Update,
+        AuditEntityType.User,
+        userId,
+        user,
+        deactivatedUser,
+        "Deactivated"
+      );
+      res.status(200).json({
+        status: 200,
+        message: "User deactivated successfully.",
+        user: toPublicUser(deactivatedUser),
+        reassigned: {
+          cases: plan.cases.map(({ after }) => after.id),
+          hearings: plan.hearings.map(({ after }) => after.id),
+        },
+        conflicts: conflicts,
+        hearingConflicts: hearingConflicts,
+      });
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({
+        status: 500,
+        error: "Server error occurred while deactivating the user.",
+      });
+    }
+  });
+
+  // Reactivate a deactivated user. Their old assignments are not restored.
+  app.post(
+    "/users/:id/reactivate",
+    authorize(Permission.ManageUsers),
+    (req, res) => {
+      const userId = req.params.id;
+
+      const userOpt = userManager.get(userId);
+      if ("None" in userOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `User with id ${userId} not found`,
+        });
+      }
+
+      if (userOpt.Some.active) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "This user is already active",
+        });
+      }
+
+      const reactivatedUser: UserProfile = {
+        ...userOpt.Some,
+        active: true,
+        deactivatedAt: null,
+        updatedAt: getCurrentDate(),
+      };
+      saveUser(reactivatedUser);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.User,
+        userId,
+        userOpt.Some,
+        reactivatedUser,
+        "Reactivated"
+      );
+      res.status(200).json({
+        status: 200,
+        message: "User reactivated successfully.",
+        user: toPublicUser(reactivatedUser),
+      });
+    }
+  );
+
+  // Link a user to the Internet Computer principal they call the Candid
+  // interface with, or unlink them with 'principal: null'
+  app.put(
+    "/users/:id/principal",
+    authorize(Permission.ManageUsers),
+    (req, res) => {
+      const userId = req.params.id;
+      const { principal } = req.body;
+
+      const userOpt = userManager.get(userId);
+      if ("None" in userOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `User with id ${userId} not found`,
+        });
+      }
+
+      const principalError = validatePrincipal(principal);
+      if (principalError) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid principal",
+          details: principalError,
+        });
+      }
+
+      const linkedUser = principal ? findUserByPrincipal(principal) : null;
+      if (linkedUser && linkedUser.id !== userId) {
+        return res.status(409).json({
+          status: 409,
+          error: "Principal already linked",
+          details: `Principal ${principal} is linked to user ${linkedUser.id}`,
+        });
+      }
+
+      const updatedUser: UserProfile = {
+        ...userOpt.Some,
+        principal: principal ?? null,
+        updatedAt: getCurrentDate(),
+      };
+      saveUser(updatedUser);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.User,
+        userId,
+        userOpt.Some,
+        updatedUser,
+        principal ? "Principal linked" : "Principal unlinked"
+      );
+      res.status(200).json({
+        status: 200,
+        message: principal
+          ? "Principal linked successfully."
+          : "Principal unlinked successfully.",
+        user: toPublicUser(updatedUser),
+      });
+    }
+  );
+
+  // Get all users
+  app.get("/users", authorize(Permission.ViewUsers), (req, res) => {
+    try {
+      const pageQuery = parsePageQuery(
+        req.query,
+        ["username", "email", "role", "createdAt"],
+        "username"
+      );
+      if (typeof pageQuery === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: pageQuery,
+        });
+      }
+
+      const { role, q } = req.query;
+      const includeInactive = req.query.includeInactive === "true";
+      const users = userManager
+        .values()
+        .filter(
+          (u) =>
+            (includeInactive || u.active) &&
+            (!role || u.role === role) &&
+            matchesSearch(q, [u.username, u.email])
+        );
+
+      const page = paginate(users, pageQuery);
+      res.status(200).json({
+        message:
+          page.total === 0
+            ? "No users found."
+            : "Users retrieved successfully.",
+        users: page.items.map(toPublicUser),
+        page: toPageInfo(page),
+      });
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({
+        error: "Server error occurred while fetching users.",
+      });
+    }
+  });
+
+  // Get user by ID
+  app.get("/users/:id", authorize(Permission.ViewUsers, true), (req, res) => {
+    const userId = req.params.id;
+
+    const userOpt = userManager.get(userId);
+    if ("None" in userOpt) {
+      res.status(400).json({
+        status: 400,
+        message: `Couldn't find user with id=${userId}`,
+      });
+    } else {
+      res.status(200).json({
+        message: "User retrieved successfully.",
+        user: toPublicUser(userOpt.Some),
+      });
+    }
+  });
+
+  // Get a user's notifications, newest first, with the unread count
+  app.get("/users/:id/notifications", authorizeSelf, (req, res) => {
+    const pageQuery = parsePageQuery(
+      { order: "desc", ...req.query },
+      ["createdAt"],
+      "createdAt"
+    );
+    if (typeof pageQuery === "string") {
+      return res.status(400).json({
+        status: 400,
+        error: pageQuery,
+      });
+    }
+
+    const inboxOpt = notificationManager.get(req.params.id);
+    const inbox = "None" in inboxOpt ? [] : inboxOpt.Some;
+    const unreadOnly = req.query.unreadOnly === "true";
+
+    const page = paginate(
+      inbox.filter((n) => !unreadOnly || !n.readAt),
+      pageQuery
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Notifications retrieved successfully.",
+      unreadCount: inbox.filter((n) => !n.readAt).length,
+      notifications: page.items,
+      page: toPageInfo(page),
+    });
+  });
+
+  // Mark every notification in a user's inbox as read
+  app.put("/users/:id/notifications/read-all", authorizeSelf, (req, res) => {
+    const inboxOpt = notificationManager.get(req.params.id);
+    const inbox = "None" in inboxOpt ? [] : inboxOpt.Some;
+
+    const readAt = getCurrentDate();
+    const marked = inbox.filter((n) => !n.readAt).length;
+    notificationManager.insert(
+      req.params.id,
+      inbox.map((n) => ({ ...n, readAt: n.readAt ?? readAt }))
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Notifications marked as read.",
+      marked: marked,
+      unreadCount: 0,
+    });
+  });
+
+  // Mark one notification as read
+  app.put(
+    "/users/:id/notifications/:notificationId/read",
+    authorizeSelf,
+    (req, res) => {
+      const { id: userId, notificationId } = req.params;
+
+      const inboxOpt = notificationManager.get(userId);
+      const inbox = "None" in inboxOpt ? [] : inboxOpt.Some;
+      const notification = inbox.find((n) => n.id === notificationId);
+      if (!notification) {
+        return res.status(404).json({
+          status: 404,
+          error: `Notification with id ${notificationId} not found`,
+        });
+      }
+
+      const updatedNotification: Notification = {
+        ...notification,
+        readAt: notification.readAt ?? getCurrentDate(),
+      };
+      const updatedInbox = inbox.map((n) =>
+        n.id === notificationId ? updatedNotification : n
+      );
+      notificationManager.insert(userId, updatedInbox);
+      res.status(200).json({
+        status: 200,
+        message: "Notification marked as read.",
+        notification: updatedNotification,
+        unreadCount: updatedInbox.filter((n) => !n.readAt).length,
+      });
+    }
+  );
+
+  // Get the event types a user is notified about
+  app.get("/users/:id/notification-preferences", authorizeSelf, (req, res) => {
+    res.status(200).json({
+      status: 200,
+      message: "Notification preferences retrieved successfully.",
+      preferences: getNotificationPreferences(req.params.id),
+    });
+  });
+
+  // Switch notifications on or off per event type. Events left out of the
+  // body keep their current setting.
+  app.put("/users/:id/notification-preferences", authorizeSelf, (req, res) => {
+    const userId = req.params.id;
+
+    const invalidEvent = Object.entries(req.body ?? {}).find(
+      ([event, enabled]) =>
+        !Object.values(NotificationEvent).includes(
+          event as NotificationEvent
+        ) || typeof enabled !== "boolean"
+    );
+    if (invalidEvent) {
+      return res.status(400).json({
+        status: 400,
+        error: `Invalid preference: Ensure each key is one of ${Object.values(
+          NotificationEvent
+        ).join(", ")} and each value is true or false.`,
+      });
+    }
+
+    const existingPreferences = getNotificationPreferences(userId);
+    const updatedPreferences = { ...existingPreferences, ...req.body };
+    notificationPreferenceManager.insert(userId, updatedPreferences);
+    recordAudit(
+      userId,
+      AuditAction.Update,
+      AuditEntityType.NotificationPreferences,
+      userId,
+      existingPreferences,
+      updatedPreferences
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Notification preferences updated successfully.",
+      preferences: updatedPreferences,
+    });
+  });
+
+  // Declare a relationship with a person who may appear as a party, so cases
+  // involving them are flagged as conflicts of interest
+  app.post(
+    "/users/:id/relationships",
+    authorize(Permission.ManageUsers, true),
+    (req, res) => {
+      const userId = req.params.id;
+      const partyName = req.body.partyName ?? null;
+      const litigantId = req.body.litigantId ?? null;
+
+      if (!req.body.relationship || (!partyName && !litigantId)) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid payload: Ensure 'relationship' and either 'partyName' or 'litigantId' are provided.",
+        });
+      }
+
+      const userOpt = userManager.get(userId);
+      if ("None" in userOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `User with id ${userId} not found`,
+        });
+      }
+
+      if (litigantId !== null) {
+        const litigantOpt = userManager.get(litigantId);
+        if (
+          "None" in litigantOpt ||
+          litigantOpt.Some.role !== UserRole.Litigant
+        ) {
+          return res.status(400).json({
+            status: 400,
+            error: "Invalid litigant",
+            details: `User with id ${litigantId} is not a litigant`,
+          });
+        }
+      }
+
+      const relationship: DeclaredRelationship = {
+        id: uuidv4(),
+        partyName: partyName,
+        litigantId: litigantId,
+        relationship: req.body.relationship,
+        declaredAt: getCurrentDate(),
+      };
+
+      const relationshipsOpt = declaredRelationshipManager.get(userId);
+      declaredRelationshipManager.insert(userId, [
+        ...("None" in relationshipsOpt ? [] : relationshipsOpt.Some),
+        relationship,
+      ]);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.DeclaredRelationship,
+        relationship.id,
+        null,
+        { userId: userId, ...relationship }
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Relationship declared successfully.",
+        relationship: relationship,
+      });
+    }
+  );
+
+  // Get the relationships a user has declared
+  app.get(
+    "/users/:id/relationships",
+    authorize(Permission.ManageUsers, true),
+    (req, res) => {
+      const relationshipsOpt = declaredRelationshipManager.get(req.params.id);
+
+      res.status(200).json({
+        status: 200,
+        message: "Relationships retrieved successfully.",
+        relationships: "None" in relationshipsOpt ? [] : relationshipsOpt.Some,
+      });
+    }
+  );
+
+  // Withdraw a declared relationship
+  app.delete(
+    "/users/:id/relationships/:relationshipId",
+    authorize(Permission.ManageUsers, true),
+    (req, res) => {
+      const { id: userId, relationshipId } = req.params;
+
+      const relationshipsOpt = declaredRelationshipManager.get(userId);
+      const relationships =
+        "None" in relationshipsOpt ? [] : relationshipsOpt.Some;
+      const relationship = relationships.find((r) => r.id === relationshipId);
+      if (!relationship) {
+        return res.status(404).json({
+          status: 404,
+          error: `Relationship with id ${relationshipId} not found`,
+        });
+      }
+
+      declaredRelationshipManager.insert(
+        userId,
+        relationships.filter((r) => r.id !== relationshipId)
+      );
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Delete,
+        AuditEntityType.DeclaredRelationship,
+        relationshipId,
+        { userId: userId, ...relationship },
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Relationship withdrawn successfully.",
+      });
+    }
+  );
+
+  // Create new case
+  app.post("/cases", authorize(Permission.CreateCase), (req, res) => {
+    // Case numbers are generated. Administrators may supply one for a case
+    // brought over from another system, but it must still be unique.
+    if (
+      req.body.caseNumber !== undefined &&
+      !hasPermission(getCaller(res)!, Permission.AdministerSystem)
+    ) {
+      return forbidden(res, "Case numbers are generated by the court");
+    }
+
+    const fields = validateNewCase(req.body);
+    if ("error" in fields) {
+      return res.status(fields.status).json(fields);
+    }
+
+    const deactivatedIds = findDeactivatedUserIds([
+      fields.judgeId,
+      ...fields.lawyerIds,
+    ]);
+    if (deactivatedIds.length > 0) {
+      return usersDeactivated(res, deactivatedIds);
+    }
+
+    const court = fields.court ?? getCaseNumberFormat().defaultCourt;
+
+    // Optionally let the court pick the judge
+    const autoAssignJudge = req.body.autoAssignJudge === true;
+    const strategy =
+      req.body.assignmentStrategy ?? DEFAULT_JUDGE_ASSIGNMENT_STRATEGY;
+    if (autoAssignJudge) {
+      if (fields.judgeId) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid payload: Send either 'judgeId' or 'autoAssignJudge', not both.",
+        });
+      }
+
+      if (!Object.values(JudgeAssignmentStrategy).includes(strategy)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid strategy: Ensure 'assignmentStrategy' is one of ${Object.values(
+            JudgeAssignmentStrategy
+          ).join(", ")}.`,
+        });
+      }
+    }
+
+    // The case number is generated last so rejected requests do not use one
+    const caseInstance = new Case(
+      "",
+      fields.title,
+      fields.description,
+      fields.caseType,
+      court,
+      fields.judgeId,
+      fields.lawyerIds
+    );
+
+    let judgeAssignment: JudgeAssignment | null = null;
+    if (autoAssignJudge) {
+      const result = pickJudge(strategy, caseInstance);
+      if (typeof result === "string") {
+        return res.status(409).json({
+          status: 409,
+          error: "Judge assignment failed",
+          details: result,
+        });
+      }
+      judgeAssignment = result;
+      caseInstance.judgeId = result.judgeId;
+    }
+
+    const conflicts = findConflictsOfInterest(caseInstance);
+    if (conflicts.length > 0 && req.body.allowConflicts !== true) {
+      return res.status(409).json({
+        status: 409,
+        error: "Conflict of interest",
+        details:
+          "Resolve the conflicts or send 'allowConflicts: true' to proceed anyway.",
+        conflicts: conflicts,
+      });
+    }
+
+    try {
+      caseInstance.caseNumber =
+        fields.caseNumber ??
+        generateCaseNumber(court, fields.caseType, getCurrentDate());
+      caseInstance.statusHistory.push({
+        from: null,
+        to: caseInstance.status,
+        changedBy: getCaller(res)!.id,
+        changedAt: caseInstance.createdAt,
+        reason: "Case filed",
+      });
+
+      saveCase(caseInstance);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.Case,
+        caseInstance.id,
+        null,
+        caseInstance,
+        judgeAssignment?.reason ?? null
+      );
+      triggerCaseDeadlines(
+        caseInstance.id,
+        DeadlineTrigger.CaseFiled,
+        null,
+        caseInstance.createdAt,
+        getCaller(res)!.id
+      );
+      const charges = raiseCaseFees(
+        caseInstance.id,
+        FeeTrigger.CaseFiled,
+        caseInstance.caseType,
+        null,
+        getCaller(res)!.id
+      );
+      notifyUsers(
+        [caseInstance.judgeId, ...(caseInstance.lawyerIds ?? [])],
+        NotificationEvent.CaseAssigned,
+        caseInstance.id,
+        null,
+        `You have been assigned to case ${caseInstance.caseNumber}`,
+        getCaller(res)!.id
+      );
+      res.status(201).json({
+        message: "Case created successfully.",
+        case: caseInstance,
+        judgeAssignment: judgeAssignment,
+        conflicts: conflicts,
+        charges: charges,
+      });
+    } catch (error) {
+      console.error("Error creating case:", error);
+      res
+        .status(500)
+        .json({ error: "Server error occurred while creating the case." });
+    }
+  });
+
+  // Get all cases
+  app.get("/cases", authenticate, (req, res) => {
+    try {
+      const pageQuery = parsePageQuery(
+        req.query,
+        ["createdAt", "updatedAt", "caseNumber", "title", "status"],
+        "createdAt"
+      );
+      if (typeof pageQuery === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: pageQuery,
+        });
+      }
+
+      const filedRange = parseDateRange(req.query, "filedFrom", "filedTo");
+      if (typeof filedRange === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: filedRange,
+        });
+      }
+
+      const { judgeId, lawyerId } = req.query;
+      const cases = findCases(getCaller(res)!, {
+        statuses: req.query.status ? String(req.query.status).split(",") : null,
+        judgeId: judgeId ? String(judgeId) : null,
+        lawyerId: lawyerId ? String(lawyerId) : null,
+        filedRange: filedRange,
+        q: req.query.q,
+      });
+
+      const page = paginate(cases, pageQuery);
+      res.status(200).json({
+        message:
+          page.total === 0
+            ? "No cases found."
+            : "Cases retrieved successfully.",
+        cases: page.items,
+        page: toPageInfo(page),
+      });
+    } catch (error) {
+      console.error("Error fetching cases:", error);
+      res.status(500).json({
+        error: "Server error occurred while fetching cases.",
+      });
+    }
+  });
+
+  // Update case status
+  app.put(
+    "/cases/:id/status",
+    authorize(Permission.UpdateCaseStatus),
+    (req, res) => {
+      const result = updateCaseStatus(
+        getCaller(res)!,
+        req.params.id,
+        req.body.status,
+        req.body.reason
+      );
+      if ("error" in result) {
+        return res.status(result.status).json(result);
+      }
+
+      res.json({
+        status: 200,
+        message: "Case status updated successfully.",
+        case: result,
+      });
+    }
+  );
+
+  // Look a case up by its case number. Numbers contain slashes, so clients
+  // must URL-encode them.
+  app.get("/cases/by-number/:caseNumber", authenticate, (req, res) => {
+    const caseNumber = req.params.caseNumber;
+
+    const cases = getIndexedRecords(caseNumberIndex, caseNumber, caseManager);
+    if (cases.length === 0) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with number ${caseNumber} not found`,
+      });
+    }
+
+    // Cases created before numbers were generated may share a number
+    if (cases.length > 1) {
+      return res.status(409).json({
+        status: 409,
+        error: "Duplicate case number",
+        details: `${cases.length} cases are numbered ${caseNumber}`,
+        caseIds: cases.map((c) => c.id),
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, cases[0])) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Case retrieved successfully.",
+      case: cases[0],
+    });
+  });
+
+  // Get the status history of a case
+  app.get("/cases/:id/status-history", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Case status history retrieved successfully.",
+      currentStatus: caseOpt.Some.status,
+      history: caseOpt.Some.statusHistory ?? [],
+    });
+  });
+
+  // Get case by ID
+  app.get("/cases/:id", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      res.status(400).json({
+        status: 400,
+        message: `Couldn't find case with id=${caseId}`,
+      });
+    } else if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      forbidden(res, "You do not have access to this case");
+    } else {
+      res.status(200).json({
+        message: "Case retrieved successfully.",
+        case: caseOpt.Some,
+        linkedCases: describeCaseLinks(getCaller(res)!, caseOpt.Some),
+      });
+    }
+  });
+
+  // Updated function to add judge to a case with comprehensive error handling
+  app.put(
+    "/cases/:id/judge",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      try {
+        const result = assignJudge(
+          getCaller(res)!,
+          req.params.id,
+          req.body.judgeId,
+          req.body.allowConflicts === true
+        );
+        if ("error" in result) {
+          return res.status(result.status).json(result);
+        }
+
+        // Prepare success response with detailed information
+        return res.status(200).json({
+          status: 200,
+          message: "Judge successfully assigned to case",
+          data: {
+            case: result.case,
+            modifiedAt: result.case.updatedAt,
+            judge: toPublicUser(result.judge),
+            conflicts: result.conflicts,
+          },
+        });
+      } catch (error) {
+        console.error("Error in add judge endpoint:", error);
+        return res.status(500).json({
+          status: 500,
+          error: "Internal server error",
+          details: "An unexpected error occurred while processing the request",
+        });
+      }
+    }
+  );
+
+  // Let the court pick a judge for a case. The judge currently assigned, if
+  // any, is not considered.
+  app.post(
+    "/cases/:id/judge/auto",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      const caseId = req.params.id;
+
+      const strategy = req.body.strategy ?? DEFAULT_JUDGE_ASSIGNMENT_STRATEGY;
+      if (!Object.values(JudgeAssignmentStrategy).includes(strategy)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid strategy: Ensure 'strategy' is one of ${Object.values(
+            JudgeAssignmentStrategy
+          ).join(", ")}.`,
+        });
+      }
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: "Case not found",
+          details: `Case with id ${caseId} does not exist`,
+        });
+      }
+
+      const existingCase = caseOpt.Some;
+      if (isCaseClosed(existingCase)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "Cannot modify judge for a closed case",
+        });
+      }
+
+      const assignment = pickJudge(strategy, existingCase);
+      if (typeof assignment === "string") {
+        return res.status(409).json({
+          status: 409,
+          error: "Judge assignment failed",
+          details: assignment,
+        });
+      }
+
+      const updatedCase: Case = {
+        ...existingCase,
+        judgeId: assignment.judgeId,
+        updatedAt: getCurrentDate(),
+      };
+
+      saveCase(updatedCase);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Case,
+        caseId,
+        existingCase,
+        updatedCase,
+        assignment.reason
+      );
+      notifyUsers(
+        [assignment.judgeId],
+        NotificationEvent.CaseAssigned,
+        caseId,
+        null,
+        `You have been assigned to case ${updatedCase.caseNumber}`,
+        getCaller(res)!.id
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Judge automatically assigned to case.",
+        case: updatedCase,
+        assignment: assignment,
+      });
+    }
+  );
+
+  // Link a case to another: an appeal, a consolidation (this case becomes the
+  // lead), a related matter or a remand. The inverse link is added to the
+  // other case.
+  app.post(
+    "/cases/:id/links",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      const caseId = req.params.id;
+      const { type, linkedCaseId } = req.body;
+
+      if (!type || !linkedCaseId) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const inverseType = caseLinkInverses[type as CaseLinkType];
+      if (!inverseType) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid link type: Ensure 'type' is one of ${Object.keys(
+            caseLinkInverses
+          ).join(", ")}.`,
+        });
+      }
+
+      if (linkedCaseId === caseId) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid link: A case cannot be linked to itself.",
+        });
+      }
+
+      const caseOpt = caseManager.get(caseId);
+      const linkedCaseOpt = caseManager.get(linkedCaseId);
+      if ("None" in caseOpt || "None" in linkedCaseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: "Case not found",
+          details: `Case with id ${
+            "None" in caseOpt ? caseId : linkedCaseId
+          } does not exist`,
+        });
+      }
+
+      const existingCase = caseOpt.Some;
+      const linkedCase = linkedCaseOpt.Some;
+      if (
+        (existingCase.links ?? []).some((l) => l.linkedCaseId === linkedCaseId)
+      ) {
+        return res.status(409).json({
+          status: 409,
+          error: "Cases already linked",
+          details: "Remove the existing link before adding a different one",
+        });
+      }
+
+      // Consolidated groups are one level deep: a lead case and its members
+      if (type === CaseLinkType.ConsolidatedWith) {
+        const isMember = (c: Case) =>
+          (c.links ?? []).some((l) => l.type === CaseLinkType.ConsolidatedInto);
+        const isLead = (c: Case) =>
+          (c.links ?? []).some((l) => l.type === CaseLinkType.ConsolidatedWith);
+        if (
+          isMember(existingCase) ||
+          isMember(linkedCase) ||
+          isLead(linkedCase)
+        ) {
+          return res.status(409).json({
+            status: 409,
+            error: "Invalid consolidation",
+            details:
+              "The lead case cannot itself be consolidated into another case, and the other case must not belong to a consolidated group",
+          });
+        }
+      }
+
+      const caller = getCaller(res)!;
+      const linkId = uuidv4();
+      const createdAt = getCurrentDate();
+      const updatedCase: Case = {
+        ...existingCase,
+        links: [
+          ...(existingCase.links ?? []),
+          {
+            id: linkId,
+            type: type,
+            linkedCaseId: linkedCaseId,
+            createdBy: caller.id,
+            createdAt: createdAt,
+          },
+        ],
+        updatedAt: createdAt,
+      };
+      const updatedLinkedCase: Case = {
+        ...linkedCase,
+        links: [
+          ...(linkedCase.links ?? []),
+          {
+            id: linkId,
+            type: inverseType,
+            linkedCaseId: caseId,
+            createdBy: caller.id,
+            createdAt: createdAt,
+          },
+        ],
+        updatedAt: createdAt,
+      };
+
+      saveCase(updatedCase);
+      saveCase(updatedLinkedCase);
+      recordAudit(
+        caller.id,
+        AuditAction.Update,
+        AuditEntityType.Case,
+        caseId,
+        existingCase,
+        updatedCase
+      );
+      recordAudit(
+        caller.id,
+        AuditAction.Update,
+        AuditEntityType.Case,
+        linkedCaseId,
+        linkedCase,
+        updatedLinkedCase
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Cases linked successfully.",
+        case: updatedCase,
+        linkedCases: describeCaseLinks(caller, updatedCase),
+      });
+    }
+  );
+
+  // Remove a link from both of the cases it joins
+  app.delete(
+    "/cases/:id/links/:linkId",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      const { id: caseId, linkId } = req.params;
+
+      const caseOpt = caseManager.get(caseId);
+      const link =
+        "None" in caseOpt
+          ? undefined
+          : (caseOpt.Some.links ?? []).find((l) => l.id === linkId);
+      if ("None" in caseOpt || !link) {
+        return res.status(404).json({
+          status: 404,
+          error: `Link with id ${linkId} not found on case ${caseId}`,
+        });
+      }
+
+      // The other case may have been deleted since the link was made
+      const caller = getCaller(res)!;
+      const updatedAt = getCurrentDate();
+      const linkedCaseOpt = caseManager.get(link.linkedCaseId);
+      const linkedCases = [
+        caseOpt.Some,
+        ...("None" in linkedCaseOpt ? [] : [linkedCaseOpt.Some]),
+      ];
+      for (const existing of linkedCases) {
+        const updated: Case = {
+          ...existing,
+          links: (existing.links ?? []).filter((l) => l.id !== linkId),
+          updatedAt: updatedAt,
+        };
+
+        saveCase(updated);
+        recordAudit(
+          caller.id,
+          AuditAction.Update,
+          AuditEntityType.Case,
+          existing.id,
+          existing,
+          updated
+        );
+      }
+
+      res.status(200).json({
+        status: 200,
+        message: "Link removed successfully.",
+      });
+    }
+  );
+
+  // Recuse the assigned judge from a case. The case is left without a judge
+  // and the judge cannot be assigned to it again.
+  app.post("/cases/:id/recusal", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    if (!req.body.reason) {
+      return res.status(400).json({
+        status: 400,
+        error: "Missing required field: reason",
+        details: "A recusal must give a reason",
+      });
+    }
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: "Case not found",
+        details: `Case with id ${caseId} does not exist`,
+      });
+    }
+
+    const caller = getCaller(res)!;
+    const existingCase = caseOpt.Some;
+    if (existingCase.judgeId !== caller.id) {
+      return forbidden(res, "Only the judge assigned to this case can recuse");
+    }
+
+    const recusedAt = getCurrentDate();
+    const updatedCase: Case = {
+      ...existingCase,
+      judgeId: null,
+      recusals: [
+        ...(existingCase.recusals ?? []),
+        { judgeId: caller.id, reason: req.body.reason, recusedAt: recusedAt },
+      ],
+      updatedAt: recusedAt,
+    };
+
+    saveCase(updatedCase);
+    recordAudit(
+      caller.id,
+      AuditAction.Update,
+      AuditEntityType.Case,
+      caseId,
+      existingCase,
+      updatedCase,
+      `Judge recused: ${req.body.reason}`
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Recusal recorded. The case needs a new judge.",
+      case: updatedCase,
+    });
+  });
+
+  // Mark a judge unavailable for new assignments over a period
+  app.post(
+    "/judges/:id/unavailability",
+    authorize(Permission.AssignCaseParticipants, true),
+    (req, res) => {
+      const judgeId = req.params.id;
+
+      const judgeOpt = userManager.get(judgeId);
+      if ("None" in judgeOpt || judgeOpt.Some.role !== UserRole.Judge) {
+        return res.status(404).json({
+          status: 404,
+          error: `Judge with id ${judgeId} not found`,
+        });
+      }
+
+      if (!req.body.from || !req.body.to || !req.body.reason) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const range = parseDateRange(req.body, "from", "to");
+      if (typeof range === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: range,
+        });
+      }
+
+      if (range.from! >= range.to!) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid period: Ensure 'from' is before 'to'.",
+        });
+      }
+
+      const period: JudgeUnavailability = {
+        id: uuidv4(),
+        from: range.from!,
+        to: range.to!,
+        reason: req.body.reason,
+        recordedBy: getCaller(res)!.id,
+        recordedAt: getCurrentDate(),
+      };
+
+      const periodsOpt = judgeUnavailabilityManager.get(judgeId);
+      judgeUnavailabilityManager.insert(judgeId, [
+        ...("None" in periodsOpt ? [] : periodsOpt.Some),
+        period,
+      ]);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.JudgeUnavailability,
+        period.id,
+        null,
+        { judgeId: judgeId, ...period }
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Unavailability recorded successfully.",
+        unavailability: period,
+      });
+    }
+  );
+
+  // Get the periods a judge is unavailable
+  app.get(
+    "/judges/:id/unavailability",
+    authorize(Permission.ViewJudgeDockets, true),
+    (req, res) => {
+      const periodsOpt = judgeUnavailabilityManager.get(req.params.id);
+
+      res.status(200).json({
+        status: 200,
+        message: "Unavailability retrieved successfully.",
+        unavailability: "None" in periodsOpt ? [] : periodsOpt.Some,
+      });
+    }
+  );
+
+  // Remove an unavailability period
+  app.delete(
+    "/judges/:id/unavailability/:periodId",
+    authorize(Permission.AssignCaseParticipants, true),
+    (req, res) => {
+      const { id: judgeId, periodId } = req.params;
+
+      const periodsOpt = judgeUnavailabilityManager.get(judgeId);
+      const periods = "None" in periodsOpt ? [] : periodsOpt.Some;
+      const period = periods.find((p) => p.id === periodId);
+      if (!period) {
+        return res.status(404).json({
+          status: 404,
+          error: `Unavailability period with id ${periodId} not found`,
+        });
+      }
+
+      judgeUnavailabilityManager.insert(
+        judgeId,
+        periods.filter((p) => p.id !== periodId)
+      );
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Delete,
+        AuditEntityType.JudgeUnavailability,
+        periodId,
+        { judgeId: judgeId, ...period },
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Unavailability removed successfully.",
+      });
+    }
+  );
+
+  // Get all cases for a judge with validation
+  app.get(
+    "/judges/:id/cases",
+    authorize(Permission.ViewJudgeDockets, true),
+    (req, res) => {
+      try {
+        const judgeId = req.params.id;
+
+        // Validate if judgeId is provided
+        if (!judgeId) {
+          return res.status(400).json({
+            status: 400,
+            error: "Judge ID is required",
+          });
+        }
+
+        // Validate if judge exists and has correct role
+        const judgeOpt = userManager.get(judgeId);
+        if ("None" in judgeOpt) {
+          return res.status(404).json({
+            status: 404,
+            error: `Judge with id ${judgeId} not found`,
+          });
+        }
+
+        const judge = judgeOpt.Some;
+        if (judge.role !== UserRole.Judge) {
+          return res.status(403).json({
+            status: 403,
+            error: "User is not a judge",
+          });
+        }
+
+        // Get all cases assigned to the judge
+        const cases = getIndexedRecords(judgeCaseIndex, judgeId, caseManager);
+
+        // Add case statistics
+        const caseStats = {
+          total: cases.length,
+          openCases: cases.filter((c) => !isCaseClosed(c)).length,
+          closedCases: cases.filter((c) => isCaseClosed(c)).length,
+        };
+
+        // Get associated hearings for these cases
+        const hearings = cases.flatMap((c) =>
+          getIndexedRecords(caseHearingIndex, c.id, hearingManager)
+        );
+
+        // Return appropriate response based on results
+        if (cases.length === 0) {
+          return res.status(200).json({
+            status: 200,
+            message: "No cases found for the judge",
+            cases: [],
+            statistics: {
+              total: 0,
+              openCases: 0,
+              closedCases: 0,
+            },
+            hearings: [],
+          });
+        }
+
+        return res.status(200).json({
+          status: 200,
+          message: "Cases retrieved successfully",
+          cases: cases.map((c) => ({
+            ...c,
+            hearings: hearings.filter((h) => h.caseId === c.id),
+          })),
+          statistics: caseStats,
+        });
+      } catch (error) {
+        console.error("Error fetching judge cases:", error);
+        return res.status(500).json({
+          status: 500,
+          error: "Internal server error while fetching judge cases",
+        });
+      }
+    }
+  );
+
+  // Updated function to add lawyers to a case with comprehensive error handling
+  app.put(
+    "/cases/:id/lawyers",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      try {
+        const caseId = req.params.id;
+        const { lawyerIds } = req.body;
+
+        // Validate request body
+        if (!lawyerIds) {
+          return res.status(400).json({
+            status: 400,
+            error: "Missing required field: lawyerIds",
+            details: "The request body must include a lawyerIds array",
+          });
+        }
+
+        // Validate lawyerIds is an array
+        if (!Array.isArray(lawyerIds)) {
+          return res.status(400).json({
+            status: 400,
+            error: "Invalid data type for lawyerIds",
+            details: "lawyerIds must be an array of strings",
+          });
+        }
+
+        // Validate array is not empty
+        if (lawyerIds.length === 0) {
+          return res.status(400).json({
+            status: 400,
+            error: "Empty lawyerIds array",
+            details: "At least one lawyer ID must be provided",
+          });
+        }
+
+        // Validate case exists
+        const caseOpt = caseManager.get(caseId);
+        if ("None" in caseOpt) {
+          return res.status(404).json({
+            status: 404,
+            error: "Case not found",
+            details: `Case with id ${caseId} does not exist`,
+          });
+        }
+
+        const existingCase = caseOpt.Some;
+
+        // Validate case status (optional - depending on your business rules)
+        if (isCaseClosed(existingCase)) {
+          return res.status(400).json({
+            status: 400,
+            error: "Invalid operation",
+            details: "Cannot modify lawyers for a closed case",
+          });
+        }
+
+        // Validate and collect lawyer information
+        const validatedLawyers = [];
+        const invalidLawyers = [];
+
+        for (const lawyerId of lawyerIds) {
+          // Validate lawyer ID format (assuming UUID)
+          if (typeof lawyerId !== "string" || !lawyerId.trim()) {
+            invalidLawyers.push({
+              id: lawyerId,
+              reason: "Invalid ID format",
+            });
+            continue;
+          }
+
+          // Check if lawyer exists
+          const lawyerOpt = userManager.get(lawyerId);
+          if ("None" in lawyerOpt) {
+            invalidLawyers.push({
+              id: lawyerId,
+              reason: "Lawyer not found",
+            });
+            continue;
+          }
+
+          // Validate lawyer role
+          const lawyer = lawyerOpt.Some;
+          if (lawyer.role !== UserRole.Lawyer) {
+            invalidLawyers.push({
+              id: lawyerId,
+              reason: "User is not a lawyer",
+            });
+            continue;
+          }
+
+          // Lawyers already on the case stay even if since deactivated
+          if (
+            !lawyer.active &&
+            !(existingCase.lawyerIds ?? []).includes(lawyerId)
+          ) {
+            invalidLawyers.push({
+              id: lawyerId,
+              reason: "Lawyer account deactivated",
+            });
+            continue;
+          }
+
+          validatedLawyers.push(lawyerId);
+        }
+
+        // If any lawyers are invalid, return error with details
+        if (invalidLawyers.length > 0) {
+          return res.status(400).json({
+            status: 400,
+            error: "Invalid lawyer IDs detected",
+            details: {
+              invalidLawyers,
+              message:
+                "One or more lawyer IDs are invalid or not associated with lawyer accounts",
+            },
+          });
+        }
+
+        // Remove duplicates
+        const uniqueLawyerIds = [...new Set(validatedLawyers)];
+
+        // Create updated case object; lawyers taken off the case no longer
+        // represent any party on it, but are remembered as former counsel
+        const removedLawyerIds = existingCase.lawyerIds.filter(
+          (id) => !uniqueLawyerIds.includes(id)
+        );
+        const updatedCase = {
+          ...existingCase,
+          lawyerIds: uniqueLawyerIds,
+          formerLawyerIds: [
+            ...new Set([
+              ...(existingCase.formerLawyerIds ?? []),
+              ...removedLawyerIds,
+            ]),
+          ],
+          parties: (existingCase.parties ?? []).map((party) => ({
+            ...party,
+            lawyerIds: party.lawyerIds.filter((id) =>
+              uniqueLawyerIds.includes(id)
+            ),
+          })),
+          updatedAt: getCurrentDate(),
+        };
+
+        const conflicts = findNewConflictsOfInterest(existingCase, updatedCase);
+        if (conflicts.length > 0 && req.body.allowConflicts !== true) {
+          return res.status(409).json({
+            status: 409,
+            error: "Conflict of interest",
+            details:
+              "Resolve the conflicts or send 'allowConflicts: true' to proceed anyway.",
+            conflicts: conflicts,
+          });
+        }
+
+        // Update the case
+        try {
+          saveCase(updatedCase);
+        } catch (error) {
+          console.error("Error updating case:", error);
+          return res.status(500).json({
+            status: 500,
+            error: "Database error",
+            details: "Failed to update case with new lawyers",
+          });
+        }
+
+        recordAudit(
+          getCaller(res)!.id,
+          AuditAction.Update,
+          AuditEntityType.Case,
+          caseId,
+          existingCase,
+          updatedCase
+        );
+        notifyUsers(
+          uniqueLawyerIds.filter(
+            (id) => !(existingCase.lawyerIds ?? []).includes(id)
+          ),
+          NotificationEvent.CaseAssigned,
+          caseId,
+          null,
+          `You have been assigned to case ${updatedCase.caseNumber}`,
+          getCaller(res)!.id
+        );
+
+        // Prepare success response with detailed information
+        return res.status(200).json({
+          status: 200,
+          message: "Lawyers successfully assigned to case",
+          data: {
+            case: updatedCase,
+            modifiedAt: updatedCase.updatedAt,
+            lawyers: {
+              total: uniqueLawyerIds.length,
+              ids: uniqueLawyerIds,
+            },
+            conflicts: conflicts,
+          },
+        });
+      } catch (error) {
+        console.error("Error in add lawyers endpoint:", error);
+        return res.status(500).json({
+          status: 500,
+          error: "Internal server error",
+          details: "An unexpected error occurred while processing the request",
+        });
+      }
+    }
+  );
+
+  // Add a party to a case
+  app.post(
+    "/cases/:id/parties",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      const caseId = req.params.id;
+      const { name, side } = req.body;
+      const litigantId = req.body.litigantId ?? null;
+      const lawyerIds = req.body.lawyerIds ?? [];
+
+      if (!name || !side) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      if (!Object.values(PartySide).includes(side)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid side: Ensure 'side' is one of ${Object.values(
+            PartySide
+          ).join(", ")}.`,
+        });
+      }
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: "Case not found",
+          details: `Case with id ${caseId} does not exist`,
+        });
+      }
+
+      const existingCase = caseOpt.Some;
+      if (isCaseClosed(existingCase)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "Cannot modify parties for a closed case",
+        });
+      }
+
+      // A linked account must belong to a litigant
+      if (litigantId !== null) {
+        const litigantOpt = userManager.get(litigantId);
+        if (
+          "None" in litigantOpt ||
+          litigantOpt.Some.role !== UserRole.Litigant
+        ) {
+          return res.status(400).json({
+            status: 400,
+            error: "Invalid litigant",
+            details: `User with id ${litigantId} is not a litigant`,
+          });
+        }
+
+        if (!litigantOpt.Some.active) {
+          return usersDeactivated(res, [litigantId]);
+        }
+      }
+
+      // Representing lawyers must already be assigned to the case
+      if (
+        !Array.isArray(lawyerIds) ||
+        lawyerIds.some((id: string) => !existingCase.lawyerIds.includes(id))
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid representation",
+          details:
+            "'lawyerIds' must be an array of lawyers already assigned to the case",
+        });
+      }
+
+      const parties = existingCase.parties ?? [];
+      const party: CaseParty = {
+        id: uuidv4(),
+        name: name,
+        side: side,
+        litigantId: litigantId,
+        lawyerIds: [...new Set<string>(lawyerIds)],
+        addedBy: getCaller(res)!.id,
+        addedAt: getCurrentDate(),
+      };
+      const updatedCase = {
+        ...existingCase,
+        parties: [...parties, party],
+        updatedAt: getCurrentDate(),
+      };
+
+      const conflicts = findNewConflictsOfInterest(existingCase, updatedCase);
+      if (conflicts.length > 0 && req.body.allowConflicts !== true) {
+        return res.status(409).json({
+          status: 409,
+          error: "Conflict of interest",
+          details:
+            "Resolve the conflicts or send 'allowConflicts: true' to proceed anyway.",
+          conflicts: conflicts,
+        });
+      }
+
+      saveCase(updatedCase);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Case,
+        caseId,
+        existingCase,
+        updatedCase
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Party added to case successfully.",
+        party: party,
+        conflicts: conflicts,
+      });
+    }
+  );
+
+  // Remove a party from a case
+  app.delete(
+    "/cases/:id/parties/:partyId",
+    authorize(Permission.AssignCaseParticipants),
+    (req, res) => {
+      const { id: caseId, partyId } = req.params;
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: "Case not found",
+          details: `Case with id ${caseId} does not exist`,
+        });
+      }
+
+      const existingCase = caseOpt.Some;
+      const parties = existingCase.parties ?? [];
+      if (!parties.some((p) => p.id === partyId)) {
+        return res.status(404).json({
+          status: 404,
+          error: "Party not found",
+          details: `Party with id ${partyId} is not on case ${caseId}`,
+        });
+      }
+
+      if (isCaseClosed(existingCase)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "Cannot modify parties for a closed case",
+        });
+      }
+
+      const updatedCase = {
+        ...existingCase,
+        parties: parties.filter((p) => p.id !== partyId),
+        updatedAt: getCurrentDate(),
+      };
+
+      saveCase(updatedCase);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Case,
+        caseId,
+        existingCase,
+        updatedCase
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Party removed from case successfully.",
+      });
+    }
+  );
+
+  // Get the parties to a case
+  app.get("/cases/:id/parties", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Parties retrieved successfully.",
+      parties: caseOpt.Some.parties ?? [],
+    });
+  });
+
+  // Get all cases a litigant is a party to
+  app.get(
+    "/litigants/:id/cases",
+    authorize(Permission.ViewAllCases, true),
+    (req, res) => {
+      const litigantId = req.params.id;
+
+      const litigantOpt = userManager.get(litigantId);
+      if ("None" in litigantOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Litigant with id ${litigantId} not found`,
+        });
+      }
+
+      if (litigantOpt.Some.role !== UserRole.Litigant) {
+        return res.status(403).json({
+          status: 403,
+          error: "User is not a litigant",
+        });
+      }
+
+      const cases = caseManager
+        .values()
+        .filter((c) =>
+          (c.parties ?? []).some((p) => p.litigantId === litigantId)
+        )
+        .map((c) => ({
+          ...c,
+          litigantParties: c.parties.filter((p) => p.litigantId === litigantId),
+        }));
+
+      res.status(200).json({
+        status: 200,
+        message:
+          cases.length === 0
+            ? "No cases found for the litigant"
+            : "Cases retrieved successfully",
+        cases: cases,
+      });
+    }
+  );
+
+  // Get all cases for a lawyer with validation
+  app.get(
+    "/lawyers/:id/cases",
+    authorize(Permission.ViewLawyerDockets, true),
+    (req, res) => {
+      try {
+        const lawyerId = req.params.id;
+
+        // Validate if lawyerId is provided
+        if (!lawyerId) {
+          return res.status(400).json({
+            status: 400,
+            error: "Lawyer ID is required",
+          });
+        }
+
+        // Validate if lawyer exists and has correct role
+        const lawyerOpt = userManager.get(lawyerId);
+        if ("None" in lawyerOpt) {
+          return res.status(404).json({
+            status: 404,
+            error: `Lawyer with id ${lawyerId} not found`,
+          });
+        }
+
+        // Validate if user is a lawyer
+        const lawyer = lawyerOpt.Some;
+        if (lawyer.role !== UserRole.Lawyer) {
+          return res.status(403).json({
+            status: 403,
+            error: "User is not a lawyer",
+          });
+        }
+
+        // Get all cases assigned to the lawyer
+        const cases = getIndexedRecords(lawyerCaseIndex, lawyerId, caseManager);
+
+        // Return appropriate response based on results
+        if (cases.length === 0) {
+          return res.status(200).json({
+            status: 200,
+            message: "No cases found for the lawyer",
+            cases: [],
+          });
+        }
+
+        return res.status(200).json({
+          status: 200,
+          message: "Cases retrieved successfully",
+          cases: cases,
+        });
+      } catch (error) {
+        console.error("Error fetching lawyer cases:", error);
+        return res.status(500).json({
+          status: 500,
+          error: "Internal server error while fetching lawyer cases",
+        });
+      }
+    }
+  );
+
+  // Schedule a hearing
+  app.post("/hearings", authorize(Permission.ScheduleHearing), (req, res) => {
+    try {
+      const result = scheduleHearing(getCaller(res)!, req.body);
+      if ("error" in result) {
+        return res.status(result.status).json(result);
+      }
+
+      res.status(201).json({
+        message:
+          result.conflicts.length > 0
+            ? "Hearing scheduled with conflicts."
+            : "Hearing scheduled successfully.",
+        hearing: result.hearing,
+        jointHearings: result.jointHearings,
+        conflicts: result.conflicts,
+      });
+    } catch (error) {
+      console.error("Error scheduling hearing:", error);
+      res
+        .status(500)
+        .json({ error: "Server error occurred while scheduling the hearing." });
+    }
+  });
+
+  // Get all hearings
+  app.get("/hearings", authenticate, (req, res) => {
+    try {
+      const pageQuery = parsePageQuery(
+        req.query,
+        ["date", "createdAt"],
+        "date"
+      );
+      if (typeof pageQuery === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: pageQuery,
+        });
+      }
+
+      const dateRange = parseDateRange(req.query, "from", "to");
+      if (typeof dateRange === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: dateRange,
+        });
+      }
+
+      const { caseId, judgeId, courtroomId, lawyerId, q } = req.query;
+      const statuses = req.query.status
+        ? String(req.query.status).split(",")
+        : null;
+
+      const caller = getCaller(res)!;
+      const hearings = hearingManager
+        .values()
+        .filter(
+          (h) =>
+            canViewHearing(caller, h) &&
+            (!statuses || statuses.includes(getHearingStatus(h))) &&
+            (!caseId || h.caseId === caseId) &&
+            (!judgeId || h.judgeId === judgeId) &&
+            (!courtroomId || h.courtroomId === courtroomId) &&
+            (!lawyerId ||
+              getCaseLawyerIds(h.caseId).includes(String(lawyerId))) &&
+            isWithinDateRange(h.date, dateRange) &&
+            matchesSearch(q, [h.description, h.location])
+        );
+
+      const page = paginate(hearings, pageQuery);
+      res.status(200).json({
+        message:
+          page.total === 0
+            ? "No hearings found."
+            : "Hearings retrieved successfully.",
+        hearings: page.items,
+        page: toPageInfo(page),
+      });
+    } catch (error) {
+      console.error("Error fetching hearings:", error);
+      res.status(500).json({
+        error: "Server error occurred while fetching hearings.",
+      });
+    }
+  });
+
+  // Get hearing by ID
+  app.get("/hearings/:id", authenticate, (req, res) => {
+    const hearingId = req.params.id;
+
+    const hearingOpt = hearingManager.get(hearingId);
+
+    if ("None" in hearingOpt) {
+      res.status(400).json({
+        status: 400,
+        message: `Couldn't find hearing with id=${hearingId}`,
+      });
+    } else if (!canViewHearing(getCaller(res)!, hearingOpt.Some)) {
+      forbidden(res, "You do not have access to this hearing");
+    } else {
+      res.status(200).json({
+        message: "Hearing retrieved successfully.",
+        hearing: hearingOpt.Some,
+      });
+    }
+  });
+
+  // Reschedule a hearing, keeping its previous slot in the history
+  app.put(
+    "/hearings/:id/reschedule",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      if (getHearingStatus(hearing) !== HearingStatus.Scheduled) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: `Only scheduled hearings can be rescheduled; this hearing is ${getHearingStatus(
+            hearing
+          )}`,
+        });
+      }
+
+      if (!req.body.date) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const slot = parseHearingSlot(req.body, hearing);
+      if (typeof slot === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: slot,
+        });
+      }
+
+      const changedAt = getCurrentDate();
+      const updatedHearing: Hearing = {
+        ...hearing,
+        date: slot.date,
+        durationMinutes: slot.durationMinutes,
+        endDate: new Date(
+          slot.date.getTime() + slot.durationMinutes * 60 * 1000
+        ),
+        courtroomId: slot.courtroom.id,
+        location: formatCourtroomLocation(slot.courtroom),
+        rescheduleHistory: [
+          ...(hearing.rescheduleHistory ?? []),
+          {
+            previousDate: hearing.date,
+            previousEndDate: getHearingEnd(hearing),
+            previousCourtroomId: hearing.courtroomId ?? null,
+            newDate: slot.date,
+            reason: req.body.reason ?? null,
+            changedBy: getCaller(res)!.id,
+            changedAt: changedAt,
+          },
+        ],
+        updatedAt: changedAt,
+      };
+
+      const conflicts = findHearingConflicts(updatedHearing);
+      if (conflicts.length > 0 && req.body.allowConflicts !== true) {
+        return res.status(409).json({
+          status: 409,
+          error: "Scheduling conflict",
+          details:
+            "The new slot overlaps existing hearings for the same judge, location or lawyers. Set 'allowConflicts' to true to reschedule anyway.",
+          conflicts: conflicts,
+        });
+      }
+
+      saveHearing(updatedHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        updatedHearing
+      );
+      notifyCaseParticipants(
+        hearing.caseId,
+        NotificationEvent.HearingChanged,
+        hearing.id,
+        `Hearing moved from ${new Date(hearing.date).toISOString()} to ${new Date(updatedHearing.date).toISOString()} at ${updatedHearing.location}`,
+        getCaller(res)!.id
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing rescheduled successfully.",
+        hearing: updatedHearing,
+        conflicts: conflicts,
+      });
+    }
+  );
+
+  // Mark a hearing as started
+  app.put(
+    "/hearings/:id/start",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      const updatedHearing = changeHearingStatus(
+        hearing,
+        HearingStatus.InProgress,
+        {}
+      );
+      if (typeof updatedHearing === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: updatedHearing,
+        });
+      }
+
+      saveHearing(updatedHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        updatedHearing
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing started.",
+        hearing: updatedHearing,
+      });
+    }
+  );
+
+  // Adjourn a hearing and schedule its continuation on the next date
+  app.put(
+    "/hearings/:id/adjourn",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      if (!req.body.reason || !req.body.nextDate) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid payload: Ensure 'reason' and 'nextDate' are provided.",
+        });
+      }
+
+      const slot = parseHearingSlot(
+        { ...req.body, date: req.body.nextDate },
+        hearing
+      );
+      if (typeof slot === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: slot,
+        });
+      }
+
+      const nextHearing = new Hearing(
+        hearing.caseId,
+        hearing.judgeId,
+        slot.date,
+        formatCourtroomLocation(slot.courtroom),
+        req.body.description ?? hearing.description,
+        slot.durationMinutes,
+        slot.courtroom.id
+      );
+      nextHearing.previousHearingId = hearing.id;
+
+      const adjournedHearing = changeHearingStatus(
+        hearing,
+        HearingStatus.Adjourned,
+        { statusReason: req.body.reason, nextHearingId: nextHearing.id }
+      );
+      if (typeof adjournedHearing === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: adjournedHearing,
+        });
+      }
+
+      const conflicts = findHearingConflicts(nextHearing).filter(
+        (c) => c.hearing.id !== hearing.id
+      );
+      if (conflicts.length > 0 && req.body.allowConflicts !== true) {
+        return res.status(409).json({
+          status: 409,
+          error: "Scheduling conflict",
+          details:
+            "The next date overlaps existing hearings for the same judge, location or lawyers. Set 'allowConflicts' to true to adjourn anyway.",
+          conflicts: conflicts,
+        });
+      }
+
+      saveHearing(adjournedHearing);
+      saveHearing(nextHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        adjournedHearing
+      );
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.Hearing,
+        nextHearing.id,
+        null,
+        nextHearing
+      );
+      notifyCaseParticipants(
+        hearing.caseId,
+        NotificationEvent.HearingChanged,
+        nextHearing.id,
+        `Hearing of ${new Date(hearing.date).toISOString()} adjourned to ${new Date(nextHearing.date).toISOString()} at ${nextHearing.location}`,
+        getCaller(res)!.id
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing adjourned successfully.",
+        hearing: adjournedHearing,
+        nextHearing: nextHearing,
+        conflicts: conflicts,
+      });
+    }
+  );
+
+  // Cancel a hearing
+  app.put(
+    "/hearings/:id/cancel",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      if (!req.body.reason) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure 'reason' is provided.",
+        });
+      }
+
+      const updatedHearing = changeHearingStatus(
+        hearing,
+        HearingStatus.Cancelled,
+        { statusReason: req.body.reason }
+      );
+      if (typeof updatedHearing === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: updatedHearing,
+        });
+      }
+
+      saveHearing(updatedHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        updatedHearing
+      );
+      notifyCaseParticipants(
+        hearing.caseId,
+        NotificationEvent.HearingChanged,
+        hearing.id,
+        `Hearing of ${new Date(hearing.date).toISOString()} cancelled`,
+        getCaller(res)!.id
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing cancelled successfully.",
+        hearing: updatedHearing,
+      });
+    }
+  );
+
+  // Complete a hearing and record its outcome
+  app.put(
+    "/hearings/:id/complete",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      if (!req.body.outcome) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure 'outcome' is provided.",
+        });
+      }
+
+      const updatedHearing = changeHearingStatus(
+        hearing,
+        HearingStatus.Completed,
+        { outcome: req.body.outcome, minutes: req.body.minutes ?? null }
+      );
+      if (typeof updatedHearing === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: updatedHearing,
+        });
+      }
+
+      saveHearing(updatedHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        updatedHearing
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing completed successfully.",
+        hearing: updatedHearing,
+      });
+    }
+  );
+
+  // Record that a hearing did not go ahead because a party failed to appear
+  app.put(
+    "/hearings/:id/no-show",
+    authorize(Permission.ScheduleHearing),
+    (req, res) => {
+      const hearing = getHearingForUpdate(req.params.id, res);
+      if (!hearing) {
+        return;
+      }
+
+      const updatedHearing = changeHearingStatus(
+        hearing,
+        HearingStatus.NoShow,
+        { statusReason: req.body.reason ?? null }
+      );
+      if (typeof updatedHearing === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: updatedHearing,
+        });
+      }
+
+      saveHearing(updatedHearing);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Hearing,
+        hearing.id,
+        hearing,
+        updatedHearing
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Hearing marked as no-show.",
+        hearing: updatedHearing,
+      });
+    }
+  );
+
+  // Fetch hearing for a judge
+  app.get(
+    "/judges/:id/hearings",
+    authorize(Permission.ViewJudgeDockets, true),
+    (req, res) => {
+      const judgeId = req.params.id;
+
+      const hearings = getIndexedRecords(
+        judgeHearingIndex,
+        judgeId,
+        hearingManager
+      );
+
+      if (hearings.length === 0) {
+        return res.status(404).json({
+          message: "No hearings found for the judge.",
+        });
+      }
+
+      res.status(200).json({
+        message: "Hearings retrieved successfully.",
+        hearings: hearings,
+      });
+    }
+  );
+
+  // Fetch upcoming hearings for a judge
+  app.get(
+    "/judges/:id/upcoming-hearings",
+    authorize(Permission.ViewJudgeDockets, true),
+    (req, res) => {
+      try {
+        const judgeId = req.params.id;
+
+        // Validate judge exists and has correct role
+        const judgeOpt = userManager.get(judgeId);
+        if ("None" in judgeOpt) {
+          return res.status(404).json({
+            status: 404,
+            error: `Judge with id ${judgeId} not found`,
+          });
+        }
+
+        const judge = judgeOpt.Some;
+        if (judge.role !== UserRole.Judge) {
+          return res.status(403).json({
+            status: 403,
+            error: "User is not a judge",
+          });
+        }
+
+        // Get current date
+        const currentDate = getCurrentDate();
+
+        // Get upcoming hearings for the judge
+        const upcomingHearings = getIndexedRecords(
+          judgeHearingIndex,
+          judgeId,
+          hearingManager
+        ).filter((h) => isHearingActive(h) && new Date(h.date) > currentDate);
+
+        // Sort hearings by date
+        upcomingHearings.sort(
+          (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+        );
+
+        return res.status(200).json({
+          status: 200,
+          message: "Upcoming hearings retrieved successfully",
+          hearings: upcomingHearings,
+        });
+      } catch (error) {
+        console.error("Error fetching upcoming hearings:", error);
+        return res.status(500).json({
+          status: 500,
+          error: "Internal server error while fetching upcoming hearings",
+        });
+      }
+    }
+  );
+
+  // Issue a feed token for one calendar feed. The token is only shown once.
+  app.post("/calendar-feeds", authenticate, requireEntropy, (req, res) => {
+    const { scope, targetId } = req.body;
+
+    if (!Object.values(CalendarFeedScope).includes(scope)) {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid scope",
+        details: `'scope' must be one of: ${Object.values(
+          CalendarFeedScope
+        ).join(", ")}`,
+      });
+    }
+
+    if (
+      typeof targetId !== "string" ||
+      !findCalendarFeedTarget(scope, targetId)
+    ) {
+      return res.status(404).json({
+        status: 404,
+        error: `${scope} with id ${targetId} not found`,
+      });
+    }
+
+    const caller = getCaller(res)!;
+    if (!canReadCalendarFeed(caller, scope, targetId)) {
+      return forbidden(res, "You do not have access to this calendar");
+    }
+
+    const token = generateSessionToken();
+    const feed = new CalendarFeed(
+      hashSessionToken(token),
+      caller.id,
+      scope,
+      targetId
+    );
+    calendarFeedManager.insert(feed.tokenHash, feed);
+    recordAudit(
+      caller.id,
+      AuditAction.Create,
+      AuditEntityType.CalendarFeed,
+      feed.id,
+      null,
+      toPublicCalendarFeed(feed)
+    );
+    res.status(201).json({
+      status: 201,
+      message: "Calendar feed created successfully.",
+      feed: toPublicCalendarFeed(feed),
+      token: token,
+      url: `${getCalendarFeedPath(feed)}?token=${token}`,
+    });
+  });
+
+  // List the caller's calendar feeds, without their tokens
+  app.get("/calendar-feeds", authenticate, (req, res) => {
+    const callerId = getCaller(res)!.id;
+    const feeds = calendarFeedManager
+      .values()
+      .filter((f) => f.userId === callerId)
+      .map(toPublicCalendarFeed);
+
+    res.status(200).json({
+      status: 200,
+      message: "Calendar feeds retrieved successfully.",
+      feeds: feeds,
+    });
+  });
+
+  // Revoke a calendar feed token; user managers can revoke anyone's
+  app.delete("/calendar-feeds/:id", authenticate, (req, res) => {
+    const feedId = req.params.id;
+    const caller = getCaller(res)!;
+
+    const feed = calendarFeedManager.values().find((f) => f.id === feedId);
+    if (!feed) {
+      return res.status(404).json({
+        status: 404,
+        error: `Calendar feed with id ${feedId} not found`,
+      });
+    }
+
+    if (
+      feed.userId !== caller.id &&
+      !hasPermission(caller, Permission.ManageUsers)
+    ) {
+      return forbidden(res, "You can only revoke your own calendar feeds");
+    }
+
+    calendarFeedManager.remove(feed.tokenHash);
+    recordAudit(
+      caller.id,
+      AuditAction.Delete,
+      AuditEntityType.CalendarFeed,
+      feed.id,
+      toPublicCalendarFeed(feed),
+      null
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Calendar feed revoked successfully.",
+    });
+  });
+
+  // iCalendar feed of a judge's hearings
+  app.get(
+    "/judges/:id/calendar.ics",
+    allowFeedToken(CalendarFeedScope.Judge),
+    authorize(Permission.ViewJudgeDockets, true),
+    (req, res) => {
+      const judgeId = req.params.id;
+
+      const judgeOpt = userManager.get(judgeId);
+      if ("None" in judgeOpt || judgeOpt.Some.role !== UserRole.Judge) {
+        return res.status(404).json({
+          status: 404,
+          error: `Judge with id ${judgeId} not found`,
+        });
+      }
+
+      const hearings = getIndexedRecords(
+        judgeHearingIndex,
+        judgeId,
+        hearingManager
+      );
+
+      sendCalendar(res, `Hearings - Judge ${judgeOpt.Some.username}`, hearings);
+    }
+  );
+
+  // iCalendar feed of the hearings on a lawyer's cases
+  app.get(
+    "/lawyers/:id/calendar.ics",
+    allowFeedToken(CalendarFeedScope.Lawyer),
+    authorize(Permission.ViewLawyerDockets, true),
+    (req, res) => {
+      const lawyerId = req.params.id;
+
+      const lawyerOpt = userManager.get(lawyerId);
+      if ("None" in lawyerOpt || lawyerOpt.Some.role !== UserRole.Lawyer) {
+        return res.status(404).json({
+          status: 404,
+          error: `Lawyer with id ${lawyerId} not found`,
+        });
+      }
+
+      const hearings = getIndexedRecords(
+        lawyerCaseIndex,
+        lawyerId,
+        caseManager
+      ).flatMap((c) =>
+        getIndexedRecords(caseHearingIndex, c.id, hearingManager)
+      );
+
+      sendCalendar(res, `Hearings - ${lawyerOpt.Some.username}`, hearings);
+    }
+  );
+
+  // iCalendar feed of a case's hearings
+  app.get(
+    "/cases/:id/calendar.ics",
+    allowFeedToken(CalendarFeedScope.Case),
+    authenticate,
+    (req, res) => {
+      const caseId = req.params.id;
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Case with id ${caseId} not found`,
+        });
+      }
+
+      if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+        return forbidden(res, "You do not have access to this case");
+      }
+
+      const hearings = getIndexedRecords(
+        caseHearingIndex,
+        caseId,
+        hearingManager
+      );
+
+      sendCalendar(res, `Hearings - ${caseOpt.Some.caseNumber}`, hearings);
+    }
+  );
+
+  // iCalendar feed of the hearings booked in a courtroom
+  app.get(
+    "/courtrooms/:id/calendar.ics",
+    allowFeedToken(CalendarFeedScope.Courtroom),
+    authenticate,
+    (req, res) => {
+      const courtroomId = req.params.id;
+
+      const courtroomOpt = courtroomManager.get(courtroomId);
+      if ("None" in courtroomOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Courtroom with id ${courtroomId} not found`,
+        });
+      }
+
+      // Only hearings on cases the caller may view, as in the schedule
+      const caller = getCaller(res)!;
+      const hearings = hearingManager
+        .values()
+        .filter(
+          (h) => h.courtroomId === courtroomId && canViewHearing(caller, h)
+        );
+
+      sendCalendar(
+        res,
+        `Hearings - ${formatCourtroomLocation(courtroomOpt.Some)}`,
+        hearings
+      );
+    }
+  );
+
+  // Create new courtroom
+  app.post(
+    "/courtrooms",
+    authorize(Permission.ManageCourtrooms),
+    (req, res) => {
+      const { name, building, capacity, facilities } = req.body;
+
+      if (!name || !building || capacity === undefined) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const validationError = validateCourtroomFields(req.body);
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      // Ensure the name is unique within the building
+      if (findCourtroomByName(name, building)) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Courtroom already exists: Ensure 'name' is unique within the building.",
+        });
+      }
+
+      try {
+        const courtroom = new Courtroom(name, building, capacity, facilities);
+
+        courtroomManager.insert(courtroom.id, courtroom);
+        recordAudit(
+          getCaller(res)!.id,
+          AuditAction.Create,
+          AuditEntityType.Courtroom,
+          courtroom.id,
+          null,
+          courtroom
+        );
+        res.status(201).json({
+          status: 201,
+          message: "Courtroom created successfully.",
+          courtroom: courtroom,
+        });
+      } catch (error) {
+        console.error("Error creating courtroom:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while creating the courtroom.",
+        });
+      }
+    }
+  );
+
+  // Get all courtrooms
+  app.get("/courtrooms", authenticate, (req, res) => {
+    const includeInactive = req.query.includeInactive === "true";
+    const courtrooms = courtroomManager
+      .values()
+      .filter((c) => includeInactive || c.active);
+
+    res.status(200).json({
+      status: 200,
+      message: "Courtrooms retrieved successfully.",
+      courtrooms: courtrooms,
+    });
+  });
+
+  // Find courtrooms free for a whole time window
+  app.get("/courtrooms/available", authenticate, (req, res) => {
+    const from = new Date(String(req.query.from));
+    const to = new Date(String(req.query.to));
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid time window",
+        details:
+          "'from' and 'to' must be ISO 8601 dates with 'from' before 'to'",
+      });
+    }
+
+    const minCapacity = Number(req.query.minCapacity ?? 0);
+    const facilities = req.query.facilities
+      ? String(req.query.facilities).split(",")
+      : [];
+
+    const busyCourtroomIds = new Set(
+      hearingManager
+        .values()
+        .filter(
+          (h) =>
+            h.courtroomId &&
+            isHearingActive(h) &&
+            new Date(h.date) < to &&
+            getHearingEnd(h) > from
+        )
+        .map((h) => h.courtroomId)
+    );
+
+    const courtrooms = courtroomManager
+      .values()
+      .filter(
+        (c) =>
+          c.active &&
+          !busyCourtroomIds.has(c.id) &&
+          c.capacity >= minCapacity &&
+          facilities.every((f) => c.facilities.includes(f as CourtroomFacility))
+      );
+
+    res.status(200).json({
+      status: 200,
+      message: "Available courtrooms retrieved successfully.",
+      from: from,
+      to: to,
+      courtrooms: courtrooms,
+    });
+  });
+
+  // Get courtroom by ID
+  app.get("/courtrooms/:id", authenticate, (req, res) => {
+    const courtroomId = req.params.id;
+
+    const courtroomOpt = courtroomManager.get(courtroomId);
+    if ("None" in courtroomOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Courtroom with id ${courtroomId} not found`,
+      });
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Courtroom retrieved successfully.",
+      courtroom: courtroomOpt.Some,
+    });
+  });
+
+  // Get the hearings booked in a courtroom on a given day
+  app.get("/courtrooms/:id/schedule", authenticate, (req, res) => {
+    const courtroomId = req.params.id;
+
+    const courtroomOpt = courtroomManager.get(courtroomId);
+    if ("None" in courtroomOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Courtroom with id ${courtroomId} not found`,
+      });
+    }
+
+    const dayStart = req.query.date
+      ? new Date(`${req.query.date}T00:00:00.000Z`)
+      : getCurrentDate();
+    if (isNaN(dayStart.getTime())) {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid date",
+        details: "'date' must be formatted as YYYY-MM-DD",
+      });
+    }
+
+    dayStart.setUTCHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const bookings = hearingManager
+      .values()
+      .filter(
+        (h) =>
+          h.courtroomId === courtroomId &&
+          new Date(h.date) < dayEnd &&
+          getHearingEnd(h) > dayStart
+      )
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // Hearings on cases the caller cannot see are shown as booked slots only
+    const caller = getCaller(res)!;
+    res.status(200).json({
+      status: 200,
+      message: "Courtroom schedule retrieved successfully.",
+      courtroom: courtroomOpt.Some,
+      date: dayStart.toISOString().slice(0, 10),
+      hearings: bookings.filter((h) => canViewHearing(caller, h)),
+      otherBookings: bookings
+        .filter((h) => !canViewHearing(caller, h))
+        .map((h) => ({
+          start: h.date,
+          end: getHearingEnd(h),
+          status: h.status,
+        })),
+    });
+  });
+
+  // Update courtroom by ID
+  app.put(
+    "/courtrooms/:id",
+    authorize(Permission.ManageCourtrooms),
+    (req, res) => {
+      const courtroomId = req.params.id;
+
+      const courtroomOpt = courtroomManager.get(courtroomId);
+      if ("None" in courtroomOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Courtroom with id ${courtroomId} not found`,
+        });
+      }
+
+      const validationError = validateCourtroomFields(req.body);
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      const existingCourtroom = courtroomOpt.Some;
+      const name = req.body.name ?? existingCourtroom.name;
+      const building = req.body.building ?? existingCourtroom.building;
+      const duplicate = findCourtroomByName(name, building);
+      if (duplicate && duplicate.id !== courtroomId) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Courtroom already exists: Ensure 'name' is unique within the building.",
+        });
+      }
+
+      const updatedCourtroom: Courtroom = {
+        ...existingCourtroom,
+        name: name,
+        building: building,
+        capacity: req.body.capacity ?? existingCourtroom.capacity,
+        facilities: req.body.facilities ?? existingCourtroom.facilities,
+        active: req.body.active ?? existingCourtroom.active,
+        updatedAt: getCurrentDate(),
+      };
+
+      courtroomManager.insert(courtroomId, updatedCourtroom);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Courtroom,
+        courtroomId,
+        existingCourtroom,
+        updatedCourtroom
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Courtroom updated successfully.",
+        courtroom: updatedCourtroom,
+      });
+    }
+  );
+
+  // Delete courtroom by ID
+  app.delete(
+    "/courtrooms/:id",
+    authorize(Permission.ManageCourtrooms),
+    (req, res) => {
+      const courtroomId = req.params.id;
+
+      const courtroomOpt = courtroomManager.get(courtroomId);
+      if ("None" in courtroomOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Courtroom with id ${courtroomId} not found`,
+        });
+      }
+
+      // Keep rooms that hearings point at so their history stays readable
+      const isReferenced = hearingManager
+        .values()
+        .some((h) => h.courtroomId === courtroomId);
+      if (isReferenced) {
+        return res.status(409).json({
+          status: 409,
+          error: "Courtroom in use",
+          details:
+            "Hearings reference this courtroom. Set 'active' to false instead of deleting it.",
+        });
+      }
+
+      courtroomManager.remove(courtroomId);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Delete,
+        AuditEntityType.Courtroom,
+        courtroomId,
+        courtroomOpt.Some,
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Courtroom deleted successfully.",
+      });
+    }
+  );
+
+  // File a document to a case. Small documents can be sent inline as base64
+  // 'content'; larger ones declare 'chunkCount' and upload chunks separately.
+  app.post(
+    "/cases/:id/filings",
+    authorize(Permission.FileDocuments),
+    (req, res) => {
+      const caseId = req.params.id;
+      const { title, filingType } = req.body;
+
+      if (!title || !filingType || !req.body.fileName || !req.body.mimeType) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      if (!Object.values(FilingType).includes(filingType)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid filing type: Ensure 'filingType' is one of ${Object.values(
+            FilingType
+          ).join(", ")}.`,
+        });
+      }
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Case with id ${caseId} not found`,
+        });
+      }
+
+      const caller = getCaller(res)!;
+      if (!canFileToCase(caller, caseOpt.Some)) {
+        return forbidden(
+          res,
+          "Only court staff and the judge or lawyers on this case can file documents"
+        );
+      }
+
+      const unpaidCharges = findUnpaidCharges(
+        caseId,
+        FeeGatedAction.FileDocument
+      );
+      if (unpaidCharges.length > 0) {
+        return feesOutstanding(res, unpaidCharges);
+      }
+
+      const filing = new Filing(caseId, title, filingType, caller.id);
+      const result = startFilingVersion(filing, req.body, caller.id);
+      if (typeof result === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: result,
+        });
+      }
+
+      try {
+        filingManager.insert(result.id, result);
+        recordAudit(
+          caller.id,
+          AuditAction.Create,
+          AuditEntityType.Filing,
+          result.id,
+          null,
+          result
+        );
+        const charges = raiseCaseFees(
+          caseId,
+          FeeTrigger.DocumentFiled,
+          result.filingType,
+          result.id,
+          caller.id
+        );
+        if (result.currentVersion !== null) {
+          triggerCaseDeadlines(
+            caseId,
+            DeadlineTrigger.DocumentFiled,
+            result.filingType,
+            result.updatedAt!,
+            caller.id
+          );
+          notifyCaseParticipants(
+            caseId,
+            NotificationEvent.FilingSubmitted,
+            null,
+            `New ${result.filingType} filed: ${result.title}`,
+            caller.id
+          );
+        }
+        res.status(201).json({
+          status: 201,
+          message:
+            result.currentVersion === null
+              ? "Filing created. Upload the remaining chunks to complete it."
+              : "Document filed successfully.",
+          filing: result,
+          charges: charges,
+        });
+      } catch (error) {
+        console.error("Error creating filing:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while creating the filing.",
+        });
+      }
+    }
+  );
+
+  // Get all filings for a case
+  app.get("/cases/:id/filings", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    const filings = filingManager
+      .values()
+      .filter((f) => f.caseId === caseId)
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+    res.status(200).json({
+      status: 200,
+      message: "Filings retrieved successfully.",
+      filings: filings,
+    });
+  });
+
+  // Get a filing with its version history
+  app.get("/cases/:id/filings/:filingId", authenticate, (req, res) => {
+    const filing = getCaseFiling(req.params.id, req.params.filingId);
+    if (!filing) {
+      return res.status(404).json({
+        status: 404,
+        error: `Filing with id ${req.params.filingId} not found on case ${req.params.id}`,
+      });
+    }
+
+    if (!canViewCaseById(getCaller(res)!, filing.caseId)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Filing retrieved successfully.",
+      filing: filing,
+    });
+  });
+
+  // Amend a filing by starting a new version
+  app.post(
+    "/cases/:id/filings/:filingId/versions",
+    authorize(Permission.FileDocuments),
+    (req, res) => {
+      const filing = getCaseFiling(req.params.id, req.params.filingId);
+      if (!filing) {
+        return res.status(404).json({
+          status: 404,
+          error: `Filing with id ${req.params.filingId} not found on case ${req.params.id}`,
+        });
+      }
+
+      const caller = getCaller(res)!;
+      if (filing.filedBy !== caller.id && caller.role !== UserRole.CourtStaff) {
+        return forbidden(
+          res,
+          "Only the original filer or court staff can amend a filing"
+        );
+      }
+
+      if (!req.body.fileName || !req.body.mimeType) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const result = startFilingVersion(filing, req.body, caller.id);
+      if (typeof result === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: result,
+        });
+      }
+
+      filingManager.insert(result.id, result);
+      recordAudit(
+        caller.id,
+        AuditAction.Update,
+        AuditEntityType.Filing,
+        result.id,
+        filing,
+        result
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Filing amended successfully.",
+        filing: result,
+      });
+    }
+  );
+
+  // Upload one chunk of a pending filing version
+  app.put(
+    "/cases/:id/filings/:filingId/versions/:version/chunks/:index",
+    authorize(Permission.FileDocuments),
+    (req, res) => {
+      const filing = getCaseFiling(req.params.id, req.params.filingId);
+      const version = filing?.versions.find(
+        (v) => v.version === Number(req.params.version)
+      );
+      if (!filing || !version) {
+        return res.status(404).json({
+          status: 404,
+          error: "Filing version not found",
+        });
+      }
+
+      if (version.uploadedBy !== getCaller(res)!.id) {
+        return forbidden(res, "Only the uploader can add chunks to a version");
+      }
+
+      if (version.completedAt) {
+        return res.status(409).json({
+          status: 409,
+          error: "Version already completed",
+          details: "Start a new version to amend the document",
+        });
+      }
+
+      const index = Number(req.params.index);
+      if (
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= version.chunkCount
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid chunk index: Ensure it is between 0 and ${
+            version.chunkCount - 1
+          }.`,
+        });
+      }
+
+      const chunkError = validateFilingChunk(req.body.data);
+      if (chunkError) {
+        return res.status(400).json({
+          status: 400,
+          error: chunkError,
+        });
+      }
+
+      filingChunkManager.insert(
+        getFilingChunkKey(filing.id, version.version, index),
+        req.body.data
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Chunk uploaded successfully.",
+        chunk: index,
+        chunkCount: version.chunkCount,
+      });
+    }
+  );
+
+  // Verify and complete a pending filing version once all chunks are uploaded
+  app.post(
+    "/cases/:id/filings/:filingId/versions/:version/complete",
+    authorize(Permission.FileDocuments),
+    (req, res) => {
+      const filing = getCaseFiling(req.params.id, req.params.filingId);
+      const version = filing?.versions.find(
+        (v) => v.version === Number(req.params.version)
+      );
+      if (!filing || !version) {
+        return res.status(404).json({
+          status: 404,
+          error: "Filing version not found",
+        });
+      }
+
+      if (version.uploadedBy !== getCaller(res)!.id) {
+        return forbidden(res, "Only the uploader can complete a version");
+      }
+
+      if (version.completedAt) {
+        return res.status(409).json({
+          status: 409,
+          error: "Version already completed",
+        });
+      }
+
+      const result = completeFilingVersion(filing, version.version);
+      if (typeof result === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: result,
+        });
+      }
+
+      filingManager.insert(result.id, result);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Filing,
+        result.id,
+        filing,
+        result
+      );
+      // Amendments do not restart deadlines; only the first version does
+      if (filing.currentVersion === null) {
+        triggerCaseDeadlines(
+          filing.caseId,
+          DeadlineTrigger.DocumentFiled,
+          result.filingType,
+          result.updatedAt!,
+          getCaller(res)!.id
+        );
+        notifyCaseParticipants(
+          filing.caseId,
+          NotificationEvent.FilingSubmitted,
+          null,
+          `New ${result.filingType} filed: ${result.title}`,
+          getCaller(res)!.id
+        );
+      }
+      res.status(200).json({
+        status: 200,
+        message: "Filing version completed successfully.",
+        filing: result,
+      });
+    }
+  );
+
+  // Download a filing; defaults to the current version
+  app.get("/cases/:id/filings/:filingId/download", authenticate, (req, res) => {
+    const filing = getCaseFiling(req.params.id, req.params.filingId);
+    if (!filing) {
+      return res.status(404).json({
+        status: 404,
+        error: `Filing with id ${req.params.filingId} not found on case ${req.params.id}`,
+      });
+    }
+
+    if (!canViewCaseById(getCaller(res)!, filing.caseId)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    const versionNumber = req.query.version
+      ? Number(req.query.version)
+      : filing.currentVersion;
+    const version = filing.versions.find(
+      (v) => v.version === versionNumber && v.completedAt
+    );
+    if (!version) {
+      return res.status(404).json({
+        status: 404,
+        error: "No completed version found for this filing",
+      });
+    }
+
+    // Large documents must be fetched chunk by chunk
+    const chunkIndex =
+      req.query.chunk !== undefined ? Number(req.query.chunk) : null;
+    if (chunkIndex === null && version.chunkCount > 1) {
+      return res.status(200).json({
+        status: 200,
+        message:
+          "Document is stored in chunks. Request each one with '?chunk=<index>'.",
+        version: version,
+      });
+    }
+
+    const index = chunkIndex ?? 0;
+    if (!Number.isInteger(index) || index < 0 || index >= version.chunkCount) {
+      return res.status(400).json({
+        status: 400,
+        error: `Invalid chunk index: Ensure it is between 0 and ${
+          version.chunkCount - 1
+        }.`,
+      });
+    }
+
+    const chunkOpt = filingChunkManager.get(
+      getFilingChunkKey(filing.id, version.version, index)
+    );
+    if ("None" in chunkOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: "Document content not found",
+      });
+    }
+
+    res.setHeader("Content-Type", version.mimeType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${version.fileName.replace(/"/g, "")}"`
+    );
+    res.setHeader("X-Content-SHA256", version.contentHash ?? "");
+    res.setHeader("X-Chunk-Index", String(index));
+    res.setHeader("X-Chunk-Count", String(version.chunkCount));
+    res.status(200).send(Buffer.from(chunkOpt.Some, "base64"));
+  });
+
+  // Issue an order or judgment on a case
+  app.post(
+    "/cases/:id/orders",
+    authorize(Permission.IssueOrders),
+    (req, res) => {
+      const caseId = req.params.id;
+      const { orderType, text } = req.body;
+      const hearingId = req.body.hearingId ?? null;
+
+      if (!orderType || !text) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      if (!Object.values(OrderType).includes(orderType)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid order type: Ensure 'orderType' is one of ${Object.values(
+            OrderType
+          ).join(", ")}.`,
+        });
+      }
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: "Case not found",
+          details: `Case with id ${caseId} does not exist`,
+        });
+      }
+
+      // Only the judge presiding over the case may issue orders on it
+      const caller = getCaller(res)!;
+      const existingCase = caseOpt.Some;
+      if (
+        caller.role !== UserRole.Judge ||
+        existingCase.judgeId !== caller.id
+      ) {
+        return forbidden(
+          res,
+          "Only the judge assigned to this case can issue orders on it"
+        );
+      }
+
+      if (isCaseClosed(existingCase)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "Cannot issue orders on a closed case",
+        });
+      }
+
+      const unpaidCharges = findUnpaidCharges(
+        caseId,
+        FeeGatedAction.IssueOrder
+      );
+      if (unpaidCharges.length > 0) {
+        return feesOutstanding(res, unpaidCharges);
+      }
+
+      if (hearingId !== null) {
+        const hearingOpt = hearingManager.get(hearingId);
+        if ("None" in hearingOpt || hearingOpt.Some.caseId !== caseId) {
+          return res.status(400).json({
+            status: 400,
+            error:
+              "Hearing not found: Ensure 'hearingId' is a hearing on this case.",
+          });
+        }
+      }
+
+      const effectiveDate = req.body.effectiveDate
+        ? new Date(req.body.effectiveDate)
+        : getCurrentDate();
+      const complianceDeadline = req.body.complianceDeadline
+        ? new Date(req.body.complianceDeadline)
+        : null;
+      if (
+        isNaN(effectiveDate.getTime()) ||
+        (complianceDeadline && isNaN(complianceDeadline.getTime()))
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid date: Ensure 'effectiveDate' and 'complianceDeadline' are valid ISO 8601 dates.",
+        });
+      }
+
+      if (complianceDeadline && complianceDeadline < effectiveDate) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid compliance deadline: Ensure 'complianceDeadline' is not before 'effectiveDate'.",
+        });
+      }
+
+      // Final judgments and dismissals dispose of the case
+      const dispositionStatus =
+        orderDispositionStatuses[orderType as OrderType];
+      if (
+        dispositionStatus &&
+        !canTransitionCaseStatus(existingCase.status, dispositionStatus)
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid status transition",
+          details: `A ${orderType} order would move the case from ${existingCase.status} to ${dispositionStatus}, which is not allowed`,
+          allowedTransitions: caseStatusTransitions[existingCase.status] ?? [],
+        });
+      }
+
+      try {
+        const order = new CourtOrder(
+          caseId,
+          hearingId,
+          caller.id,
+          orderType,
+          text,
+          effectiveDate,
+          complianceDeadline
+        );
+
+        orderManager.insert(order.id, order);
+        recordAudit(
+          caller.id,
+          AuditAction.Create,
+          AuditEntityType.Order,
+          order.id,
+          null,
+          order
+        );
+        triggerCaseDeadlines(
+          caseId,
+          DeadlineTrigger.OrderIssued,
+          order.orderType,
+          order.effectiveDate,
+          caller.id
+        );
+
+        let updatedCase = existingCase;
+        if (dispositionStatus) {
+          updatedCase = applyCaseStatusChange(
+            existingCase,
+            dispositionStatus,
+            caller.id,
+            `${orderType} order ${order.id} issued`
+          );
+          saveCase(updatedCase);
+          recordAudit(
+            caller.id,
+            AuditAction.Update,
+            AuditEntityType.Case,
+            caseId,
+            existingCase,
+            updatedCase
+          );
+          triggerCaseDeadlines(
+            caseId,
+            DeadlineTrigger.StatusChanged,
+            dispositionStatus,
+            updatedCase.updatedAt!,
+            caller.id
+          );
+          notifyCaseParticipants(
+            caseId,
+            NotificationEvent.CaseStatusChanged,
+            null,
+            `Case ${updatedCase.caseNumber} moved from ${existingCase.status} to ${dispositionStatus}`,
+            caller.id
+          );
+        }
+
+        res.status(201).json({
+          status: 201,
+          message: "Order issued successfully.",
+          order: order,
+          case: updatedCase,
+        });
+      } catch (error) {
+        console.error("Error issuing order:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while issuing the order.",
+        });
+      }
+    }
+  );
+
+  // Get all orders on a case
+  app.get("/cases/:id/orders", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    const orders = orderManager
+      .values()
+      .filter((o) => o.caseId === caseId)
+      .sort(
+        (a, b) =>
+          new Date(a.issuedAt).getTime() - new Date(b.issuedAt).getTime()
+      );
+
+    res.status(200).json({
+      status: 200,
+      message: "Orders retrieved successfully.",
+      orders: orders,
+    });
+  });
+
+  // Get an order on a case by ID
+  app.get("/cases/:id/orders/:orderId", authenticate, (req, res) => {
+    const { id: caseId, orderId } = req.params;
+
+    const orderOpt = orderManager.get(orderId);
+    if ("None" in orderOpt || orderOpt.Some.caseId !== caseId) {
+      return res.status(404).json({
+        status: 404,
+        error: `Order with id ${orderId} not found on case ${caseId}`,
+      });
+    }
+
+    if (!canViewCaseById(getCaller(res)!, caseId)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Order retrieved successfully.",
+      order: orderOpt.Some,
+    });
+  });
+
+  // Record service of process on a case, starting any deadlines that run
+  // from service
+  app.post(
+    "/cases/:id/service",
+    authorize(Permission.FileDocuments),
+    (req, res) => {
+      const caseId = req.params.id;
+
+      const caseOpt = caseManager.get(caseId);
+      if ("None" in caseOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Case with id ${caseId} not found`,
+        });
+      }
+
+      const caller = getCaller(res)!;
+      if (!canFileToCase(caller, caseOpt.Some)) {
+        return forbidden(
+          res,
+          "Only court staff and the judge or lawyers on this case can record service"
+        );
+      }
+
+      if (isCaseClosed(caseOpt.Some)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: "Cannot record service on a closed case",
+        });
+      }
+
+      const servedAt = req.body.servedAt
+        ? new Date(req.body.servedAt)
+        : getCurrentDate();
+      if (isNaN(servedAt.getTime())) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid date: Ensure 'servedAt' is a valid ISO 8601 date.",
+        });
+      }
+
+      const deadlines = triggerCaseDeadlines(
+        caseId,
+        DeadlineTrigger.ServiceEffected,
+        null,
+        servedAt,
+        caller.id
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Service recorded successfully.",
+        deadlines: deadlines,
+      });
+    }
+  );
+
+  // Get the procedural deadlines computed for a case
+  app.get("/cases/:id/deadlines", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Deadlines retrieved successfully.",
+      deadlines: getCaseDeadlines(caseId),
+    });
+  });
+
+  // Get the deadlines on a lawyer's open cases, optionally only those due
+  // before a date
+  app.get(
+    "/lawyers/:id/deadlines",
+    authorize(Permission.ViewLawyerDockets, true),
+    (req, res) => {
+      const lawyerId = req.params.id;
+
+      const lawyerOpt = userManager.get(lawyerId);
+      if ("None" in lawyerOpt || lawyerOpt.Some.role !== UserRole.Lawyer) {
+        return res.status(404).json({
+          status: 404,
+          error: `Lawyer with id ${lawyerId} not found`,
+        });
+      }
+
+      const before = req.query.before
+        ? new Date(String(req.query.before))
+        : null;
+      if (before && isNaN(before.getTime())) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid date: Ensure 'before' is a valid ISO 8601 date.",
+        });
+      }
+
+      const deadlines = getIndexedRecords(
+        lawyerCaseIndex,
+        lawyerId,
+        caseManager
+      )
+        .filter((c) => !isCaseClosed(c))
+        .flatMap((c) => getCaseDeadlines(c.id))
+        .filter((d) => !before || new Date(d.dueDate) < before)
+        .sort(
+          (a, b) =>
+            new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+        );
+
+      res.status(200).json({
+        status: 200,
+        message: "Deadlines retrieved successfully.",
+        deadlines: deadlines,
+      });
+    }
+  );
+
+  // Create a deadline rule
+  app.post(
+    "/deadline-rules",
+    authorize(Permission.ManageCourtCalendar),
+    (req, res) => {
+      const { name, trigger, days, dayCount } = req.body;
+      const triggerValue = req.body.triggerValue ?? null;
+
+      if (!name || !trigger || days === undefined || !dayCount) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const validationError =
+        validateDeadlineRuleFields(req.body) ??
+        validateDeadlineTriggerValue(trigger, triggerValue);
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      try {
+        const rule = new DeadlineRule(
+          name,
+          req.body.description ?? "",
+          trigger,
+          triggerValue,
+          days,
+          dayCount
+        );
+
+        deadlineRuleManager.insert(rule.id, rule);
+        recordAudit(
+          getCaller(res)!.id,
+          AuditAction.Create,
+          AuditEntityType.DeadlineRule,
+          rule.id,
+          null,
+          rule
+        );
+        res.status(201).json({
+          status: 201,
+          message: "Deadline rule created successfully.",
+          rule: rule,
+        });
+      } catch (error) {
+        console.error("Error creating deadline rule:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while creating the deadline rule.",
+        });
+      }
+    }
+  );
+
+  // Get all deadline rules
+  app.get("/deadline-rules", authenticate, (req, res) => {
+    const includeInactive = req.query.includeInactive === "true";
+    const rules = deadlineRuleManager
+      .values()
+      .filter((r) => includeInactive || r.active);
+
+    res.status(200).json({
+      status: 200,
+      message: "Deadline rules retrieved successfully.",
+      rules: rules,
+    });
+  });
+
+  // Update a deadline rule. Deadlines already computed are not changed.
+  app.put(
+    "/deadline-rules/:id",
+    authorize(Permission.ManageCourtCalendar),
+    (req, res) => {
+      const ruleId = req.params.id;
+
+      const ruleOpt = deadlineRuleManager.get(ruleId);
+      if ("None" in ruleOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Deadline rule with id ${ruleId} not found`,
+        });
+      }
+
+      const existingRule = ruleOpt.Some;
+      const trigger = req.body.trigger ?? existingRule.trigger;
+      const triggerValue =
+        req.body.triggerValue !== undefined
+          ? req.body.triggerValue
+          : req.body.trigger !== undefined
+            ? null
+            : existingRule.triggerValue;
+      const validationError =
+        validateDeadlineRuleFields(req.body) ??
+        validateDeadlineTriggerValue(trigger, triggerValue);
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      const updatedRule: DeadlineRule = {
+        ...existingRule,
+        name: req.body.name ?? existingRule.name,
+        description: req.body.description ?? existingRule.description,
+        trigger: trigger,
+        triggerValue: triggerValue,
+        days: req.body.days ?? existingRule.days,
+        dayCount: req.body.dayCount ?? existingRule.dayCount,
+        active: req.body.active ?? existingRule.active,
+        updatedAt: getCurrentDate(),
+      };
+
+      deadlineRuleManager.insert(ruleId, updatedRule);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.DeadlineRule,
+        ruleId,
+        existingRule,
+        updatedRule
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Deadline rule updated successfully.",
+        rule: updatedRule,
+      });
+    }
+  );
+
+  // Delete a deadline rule. Deadlines already computed are kept.
+  app.delete(
+    "/deadline-rules/:id",
+    authorize(Permission.ManageCourtCalendar),
+    (req, res) => {
+      const ruleId = req.params.id;
+
+      const ruleOpt = deadlineRuleManager.remove(ruleId);
+      if ("None" in ruleOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `Deadline rule with id ${ruleId} not found`,
+        });
+      }
+
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Delete,
+        AuditEntityType.DeadlineRule,
+        ruleId,
+        ruleOpt.Some,
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Deadline rule deleted successfully.",
+      });
+    }
+  );
+
+  // Add a court holiday
+  app.post(
+    "/court-holidays",
+    authorize(Permission.ManageCourtCalendar),
+    (req, res) => {
+      const { date, name } = req.body;
+
+      if (!date || !name) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      if (!isCalendarDay(date)) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid date",
+          details: "'date' must be formatted as YYYY-MM-DD",
+        });
+      }
+
+      if (courtHolidayManager.containsKey(date)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Court holiday already exists on ${date}`,
+        });
+      }
+
+      const holiday = new CourtHoliday(date, name);
+      courtHolidayManager.insert(date, holiday);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.CourtHoliday,
+        date,
+        null,
+        holiday
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Court holiday added successfully.",
+        holiday: holiday,
+      });
+    }
+  );
+
+  // Get court holidays, optionally for one year
+  app.get("/court-holidays", authenticate, (req, res) => {
+    const year = req.query.year ? String(req.query.year) : null;
+    const holidays = courtHolidayManager
+      .values()
+      .filter((h) => !year || h.date.startsWith(`${year}-`));
+
+    res.status(200).json({
+      status: 200,
+      message: "Court holidays retrieved successfully.",
+      holidays: holidays,
+    });
+  });
+
+  // Remove a court holiday
+  app.delete(
+    "/court-holidays/:date",
+    authorize(Permission.ManageCourtCalendar),
+    (req, res) => {
+      const date = req.params.date;
+
+      const holidayOpt = courtHolidayManager.remove(date);
+      if ("None" in holidayOpt) {
+        return res.status(404).json({
+          status: 404,
+          error: `No court holiday on ${date}`,
+        });
+      }
+
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Delete,
+        AuditEntityType.CourtHoliday,
+        date,
+        holidayOpt.Some,
+        null
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Court holiday removed successfully.",
+      });
+    }
+  );
+
+  // Create a fee schedule entry
+  app.post("/fee-rules", authorize(Permission.ManageFees), (req, res) => {
+    const { name, trigger, amount } = req.body;
+    const appliesTo = req.body.appliesTo ?? null;
+
+    if (!name || !trigger || amount === undefined) {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid payload: Ensure all required fields are provided.",
+      });
+    }
+
+    const validationError =
+      validateFeeRuleFields(req.body) ??
+      validateFeeAppliesTo(trigger, appliesTo);
+    if (validationError) {
+      return res.status(400).json({
+        status: 400,
+        error: validationError,
+      });
+    }
+
+    try {
+      const rule = new FeeRule(
+        name,
+        req.body.kind ?? ChargeKind.FilingFee,
+        trigger,
+        appliesTo,
+        amount,
+        req.body.requiredFor ?? []
+      );
+
+      feeRuleManager.insert(rule.id, rule);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.FeeRule,
+        rule.id,
+        null,
+        rule
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Fee rule created successfully.",
+        rule: rule,
+      });
+    } catch (error) {
+      console.error("Error creating fee rule:", error);
+      res.status(500).json({
+        status: 500,
+        error: "Server error occurred while creating the fee rule.",
+      });
+    }
+  });
+
+  // Get the fee schedule
+  app.get("/fee-rules", authenticate, (req, res) => {
+    const includeInactive = req.query.includeInactive === "true";
+    const rules = feeRuleManager
+      .values()
+      .filter((r) => includeInactive || r.active);
+
+    res.status(200).json({
+      status: 200,
+      message: "Fee rules retrieved successfully.",
+      rules: rules,
+    });
+  });
+
+  // Update a fee schedule entry. Charges already raised are not changed.
+  app.put("/fee-rules/:id", authorize(Permission.ManageFees), (req, res) => {
+    const ruleId = req.params.id;
+
+    const ruleOpt = feeRuleManager.get(ruleId);
+    if ("None" in ruleOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Fee rule with id ${ruleId} not found`,
+      });
+    }
+
+    const existingRule = ruleOpt.Some;
+    const trigger = req.body.trigger ?? existingRule.trigger;
+    const appliesTo =
+      req.body.appliesTo !== undefined
+        ? req.body.appliesTo
+        : req.body.trigger !== undefined
+          ? null
+          : existingRule.appliesTo;
+    const validationError =
+      validateFeeRuleFields(req.body) ??
+      validateFeeAppliesTo(trigger, appliesTo);
+    if (validationError) {
+      return res.status(400).json({
+        status: 400,
+        error: validationError,
+      });
+    }
+
+    const updatedRule: FeeRule = {
+      ...existingRule,
+      name: req.body.name ?? existingRule.name,
+      kind: req.body.kind ?? existingRule.kind,
+      trigger: trigger,
+      appliesTo: appliesTo,
+      amount: req.body.amount ?? existingRule.amount,
+      requiredFor: req.body.requiredFor ?? existingRule.requiredFor,
+      active: req.body.active ?? existingRule.active,
+      updatedAt: getCurrentDate(),
+    };
+
+    feeRuleManager.insert(ruleId, updatedRule);
+    recordAudit(
+      getCaller(res)!.id,
+      AuditAction.Update,
+      AuditEntityType.FeeRule,
+      ruleId,
+      existingRule,
+      updatedRule
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Fee rule updated successfully.",
+      rule: updatedRule,
+    });
+  });
+
+  // Delete a fee schedule entry. Charges already raised are kept.
+  app.delete("/fee-rules/:id", authorize(Permission.ManageFees), (req, res) => {
+    const ruleId = req.params.id;
+
+    const ruleOpt = feeRuleManager.remove(ruleId);
+    if ("None" in ruleOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Fee rule with id ${ruleId} not found`,
+      });
+    }
+
+    recordAudit(
+      getCaller(res)!.id,
+      AuditAction.Delete,
+      AuditEntityType.FeeRule,
+      ruleId,
+      ruleOpt.Some,
+      null
+    );
+    res.status(200).json({
+      status: 200,
+      message: "Fee rule deleted successfully.",
+    });
+  });
+
+  // Get a case's charges, payments and outstanding balance
+  app.get("/cases/:id/ledger", authenticate, (req, res) => {
+    const caseId = req.params.id;
+
+    const caseOpt = caseManager.get(caseId);
+    if ("None" in caseOpt) {
+      return res.status(404).json({
+        status: 404,
+        error: `Case with id ${caseId} not found`,
+      });
+    }
+
+    if (!canViewCase(getCaller(res)!, caseOpt.Some)) {
+      return forbidden(res, "You do not have access to this case");
+    }
+
+    res.status(200).json({
+      status: 200,
+      message: "Ledger retrieved successfully.",
+      ...describeCaseLedger(caseId),
+    });
+  });
+
+  // Charge a case directly, for fines and fees the schedule does not cover
+  app.post(
+    "/cases/:id/charges",
+    authorize(Permission.ManageFees),
+    (req, res) => {
+      const caseId = req.params.id;
+      const { kind, description, amount } = req.body;
+      const requiredFor = req.body.requiredFor ?? [];
+
+      if (!kind || !description || amount === undefined) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      const validationError = validateFeeRuleFields({
+        kind,
+        description,
+        amount,
+        requiredFor,
+      });
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      if (!caseManager.containsKey(caseId)) {
+        return res.status(404).json({
+          status: 404,
+          error: `Case with id ${caseId} not found`,
+        });
+      }
+
+      const charge = new CaseCharge(
+        caseId,
+        kind,
+        description,
+        amount,
+        requiredFor,
+        getCaller(res)!.id
+      );
+
+      caseChargeManager.insert(caseId, [...getCaseCharges(caseId), charge]);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Create,
+        AuditEntityType.Charge,
+        charge.id,
+        null,
+        charge
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Charge created successfully.",
+        charge: charge,
+      });
+    }
+  );
+
+  // Record a payment against a charge. Payments cannot exceed the balance.
+  app.post(
+    "/cases/:id/charges/:chargeId/payments",
+    authorize(Permission.ManageFees),
+    (req, res) => {
+      const { id: caseId, chargeId } = req.params;
+      const { amount } = req.body;
+
+      if (!isChargeAmount(amount)) {
+        return res.status(400).json({
+          status: 400,
+          error:
+            "Invalid amount: Ensure 'amount' is a positive whole number in the smallest currency unit.",
+        });
+      }
+
+      const charge = getCaseCharges(caseId).find((c) => c.id === chargeId);
+      if (!charge) {
+        return res.status(404).json({
+          status: 404,
+          error: `Charge with id ${chargeId} not found on case ${caseId}`,
+        });
+      }
+
+      const balance = getChargeBalance(charge);
+      if (amount > balance) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid amount",
+          details: charge.waiver
+            ? "This charge has been waived"
+            : `The balance on this charge is ${balance}`,
+        });
+      }
+
+      const updatedCharge: CaseCharge = {
+        ...charge,
+        payments: [
+          ...charge.payments,
+          {
+            id: uuidv4(),
+            amount: amount,
+            method: req.body.method ?? null,
+            reference: req.body.reference ?? null,
+            recordedBy: getCaller(res)!.id,
+            recordedAt: getCurrentDate(),
+          },
+        ],
+        updatedAt: getCurrentDate(),
+      };
+
+      saveCaseCharge(updatedCharge);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Charge,
+        chargeId,
+        charge,
+        updatedCharge
+      );
+      res.status(201).json({
+        status: 201,
+        message: "Payment recorded successfully.",
+        charge: updatedCharge,
+        balance: getChargeBalance(updatedCharge),
+      });
+    }
+  );
+
+  // Waive what is left to pay on a charge, which also lifts any action it
+  // was holding up. Only court staff can waive fees.
+  app.post(
+    "/cases/:id/charges/:chargeId/waive",
+    authorize(Permission.ManageFees),
+    (req, res) => {
+      const { id: caseId, chargeId } = req.params;
+      const { reason } = req.body;
+
+      if (!reason || typeof reason !== "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure a 'reason' is provided.",
+        });
+      }
+
+      const charge = getCaseCharges(caseId).find((c) => c.id === chargeId);
+      if (!charge) {
+        return res.status(404).json({
+          status: 404,
+          error: `Charge with id ${chargeId} not found on case ${caseId}`,
+        });
+      }
+
+      if (getChargeBalance(charge) === 0) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid operation",
+          details: charge.waiver
+            ? "This charge has already been waived"
+            : "This charge has been paid in full",
+        });
+      }
+
+      const updatedCharge: CaseCharge = {
+        ...charge,
+        waiver: {
+          reason: reason,
+          waivedBy: getCaller(res)!.id,
+          waivedAt: getCurrentDate(),
+        },
+        updatedAt: getCurrentDate(),
+      };
+
+      saveCaseCharge(updatedCharge);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Charge,
+        chargeId,
+        charge,
+        updatedCharge,
+        reason
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Charge waived successfully.",
+        charge: updatedCharge,
+      });
+    }
+  );
+
+  // Get the format new case numbers are generated from
+  app.get(
+    "/admin/case-number-format",
+    authorize(Permission.AdministerSystem),
+    (req, res) => {
+      res.status(200).json({
+        status: 200,
+        message: "Case number format retrieved successfully.",
+        format: getCaseNumberFormat(),
+        caseTypeCodes: caseTypeCodes,
+      });
+    }
+  );
+
+  // Change the format new case numbers are generated from. Existing case
+  // numbers are not changed.
+  app.put(
+    "/admin/case-number-format",
+    authorize(Permission.AdministerSystem),
+    (req, res) => {
+      const existingFormat = getCaseNumberFormat();
+      const updatedFormat: CaseNumberFormat = {
+        pattern: req.body.pattern ?? existingFormat.pattern,
+        defaultCourt: req.body.defaultCourt ?? existingFormat.defaultCourt,
+      };
+
+      const validationError = validateCaseNumberFormat(updatedFormat);
+      if (validationError) {
+        return res.status(400).json({
+          status: 400,
+          error: validationError,
+        });
+      }
+
+      caseNumberFormatManager.insert("current", updatedFormat);
+      recordAudit(
+        getCaller(res)!.id,
+        AuditAction.Update,
+        AuditEntityType.Setting,
+        "caseNumberFormat",
+        existingFormat,
+        updatedFormat
+      );
+      res.status(200).json({
+        status: 200,
+        message: "Case number format updated successfully.",
+        format: updatedFormat,
+      });
+    }
+  );
+
+  // Report how far the upgrade of stored records to the current schema
+  // versions has got
+  app.get(
+    "/admin/migrations",
+    authorize(Permission.AdministerSystem),
+    (req, res) => {
+      const migrations = describeMigrations();
+      res.status(200).json({
+        status: 200,
+        message: "Migration progress retrieved successfully.",
+        complete: migrations.every((m) => m.completedAt !== null),
+        migrations: migrations,
+      });
+    }
+  );
+
+  // Run one migration batch now instead of waiting for the background timer
+  app.post(
+    "/admin/migrations/run",
+    authorize(Permission.AdministerSystem),
+    (req, res) => {
+      const batchSize = req.body.batchSize ?? MIGRATION_BATCH_SIZE;
+      if (
+        !Number.isInteger(batchSize) ||
+        batchSize < 1 ||
+        batchSize > MAX_MIGRATION_BATCH_SIZE
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid batch size: Ensure 'batchSize' is a whole number from 1 to ${MAX_MIGRATION_BATCH_SIZE}.`,
+        });
+      }
+
+      try {
+        const migrated = runMigrationBatch(batchSize).reduce(
+          (total, progress) => total + progress.migrated,
+          0
+        );
+        const after = describeMigrations();
+
+        recordAudit(
+          getCaller(res)!.id,
+          AuditAction.Update,
+          AuditEntityType.Setting,
+          "migrations",
+          null,
+          null,
+          `Ran a migration batch of up to ${batchSize} records (${migrated} migrated so far)`
+        );
+        res.status(200).json({
+          status: 200,
+          message: "Migration batch complete.",
+          complete: after.every((m) => m.completedAt !== null),
+          migrations: after,
+        });
+      } catch (error) {
+        console.error("Error running migrations:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while running migrations.",
+        });
+      }
+    }
+  );
+
+  // List the available reports
+  app.get("/reports", authorize(Permission.ViewReports), (req, res) => {
+    res.status(200).json({
+      status: 200,
+      message: "Reports retrieved successfully.",
+      reports: Object.entries(reportDefinitions).map(([name, report]) => ({
+        name: name,
+        description: report.description,
+      })),
+    });
+  });
+
+  // Run a report over a date range, optionally for one judge. Send
+  // '?format=csv' for a CSV download instead of JSON.
+  app.get("/reports/:name", authorize(Permission.ViewReports), (req, res) => {
+    const name = req.params.name;
+    const format = req.query.format ?? "json";
+
+    if (!isReportName(name)) {
+      return res.status(404).json({
+        status: 404,
+        error: `Report ${name} not found`,
+      });
+    }
+
+    const report = reportDefinitions[name];
+
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({
+        status: 400,
+        error: "Invalid format: Ensure 'format' is json or csv.",
+      });
+    }
+
+    const filter = parseReportFilter(req.query);
+    if (typeof filter === "string") {
+      return res.status(400).json({
+        status: 400,
+        error: filter,
+      });
+    }
+
+    if (filter.judgeId) {
+      const judgeOpt = userManager.get(filter.judgeId);
+      if ("None" in judgeOpt || judgeOpt.Some.role !== UserRole.Judge) {
+        return res.status(404).json({
+          status: 404,
+          error: `Judge with id ${filter.judgeId} not found`,
+        });
+      }
+    }
+
+    try {
+      const result = report.build(filter);
+
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${name}-${formatCalendarDay(
+            filter.from
+          )}-${formatCalendarDay(filter.to)}.csv"`
+        );
+        return res.status(200).send(formatCsv(result.columns, result.rows));
+      }
+
+      res.status(200).json({
+        status: 200,
+        message: "Report generated successfully.",
+        report: name,
+        filters: filter,
+        summary: result.summary,
+        rows: result.rows,
+      });
+    } catch (error) {
+      console.error("Error generating report:", error);
+      res.status(500).json({
+        status: 500,
+        error: "Server error occurred while generating the report.",
+      });
+    }
+  });
+
+  // Import users, cases and hearings from CSV (one entity per request) or
+  // NDJSON (an 'entity' field on every line, as written by the export).
+  // Valid rows are saved even if others fail, unless this is a dry run.
+  app.post(
+    "/admin/import",
+    authorize(Permission.AdministerSystem),
+    requireEntropy,
+    (req, res) => {
+      const { format, entity, data } = req.body;
+      const dryRun = req.body.dryRun === true;
+
+      if (!format || typeof data !== "string") {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid payload: Ensure all required fields are provided.",
+        });
+      }
+
+      if (!Object.values(ImportFormat).includes(format)) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid format: Ensure 'format' is one of ${Object.values(
+            ImportFormat
+          ).join(", ")}.`,
+        });
+      }
+
+      if (
+        format === ImportFormat.Csv &&
+        !Object.values(ImportEntity).includes(entity)
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: `Invalid entity: CSV imports need 'entity' set to one of ${Object.values(
+            ImportEntity
+          ).join(", ")}.`,
+        });
+      }
+
+      const rows = parseImportRows(format, entity, data);
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({
+          status: 400,
+          error: `Too many rows: Send at most ${MAX_IMPORT_ROWS} rows per request.`,
+        });
+      }
+
+      // Dry runs do not hash passwords, so only real imports are limited
+      const passwordRows = rows.filter(
+        (row) =>
+          row.record?.entity === ImportEntity.User &&
+          row.record.password !== undefined &&
+          row.record.passwordHash === undefined
+      );
+      if (!dryRun && passwordRows.length > MAX_IMPORT_PASSWORD_ROWS) {
+        return res.status(400).json({
+          status: 400,
+          error: `Too many passwords: Send at most ${MAX_IMPORT_PASSWORD_ROWS} users with a plain-text 'password' per request, or import them with 'passwordHash'.`,
+        });
+      }
+
+      try {
+        const batch: ImportBatch = {
+          users: new Map(),
+          cases: new Map(),
+          hearingIds: new Set(),
+        };
+        const results = rows.map((row) =>
+          importRow(row, batch, dryRun, getCaller(res)!.id)
+        );
+        const failed = results.filter((r) => r.status === "error").length;
+
+        res.status(200).json({
+          status: 200,
+          message: dryRun
+            ? "Dry run complete. Nothing was saved."
+            : "Import complete.",
+          dryRun: dryRun,
+          summary: {
+            total: results.length,
+            succeeded: results.length - failed,
+            failed: failed,
+          },
+          rows: results,
+        });
+      } catch (error) {
+        console.error("Error importing records:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while importing records.",
+        });
+      }
+    }
+  );
+
+  // Export every user, case and hearing as NDJSON that POST /admin/import
+  // accepts. Users carry their password hash so they can still log in.
+  // Exports must run as update calls so their audit entry is kept.
+  app.get(
+    "/admin/export",
+    authorize(Permission.AdministerSystem),
+    requireUpdateCall,
+    sendExport
+  );
+  app.post(
+    "/admin/export",
+    authorize(Permission.AdministerSystem),
+    requireUpdateCall,
+    sendExport
+  );
+
+  // Rebuild every secondary index from the primary records
+  app.post(
+    "/admin/indexes/rebuild",
+    authorize(Permission.AdministerSystem),
+    (req, res) => {
+      try {
+        const counts = rebuildIndexes();
+        res.status(200).json({
+          status: 200,
+          message: "Indexes rebuilt successfully.",
+          indexed: counts,
+        });
+      } catch (error) {
+        console.error("Error rebuilding indexes:", error);
+        res.status(500).json({
+          status: 500,
+          error: "Server error occurred while rebuilding indexes.",
+        });
+      }
+    }
+  );
+
+  // Query the audit log
+  app.get("/audit", authorize(Permission.ViewAuditLog), (req, res) => {
+    try {
+      const pageQuery = parsePageQuery(
+        req.query,
+        ["sequence", "timestamp"],
+        "sequence"
+      );
+      if (typeof pageQuery === "string") {
+        return res.status(400).json({
+          status: 400,
+          error: pageQuery,
+        });
+      }
+
+      const { entityId, entityType, actor, from, to } = req.query;
+
+      const fromDate = from ? new Date(String(from)) : null;
+      const toDate = to ? new Date(String(to)) : null;
+      if (
+        (fromDate && isNaN(fromDate.getTime())) ||
+        (toDate && isNaN(toDate.getTime()))
+      ) {
+        return res.status(400).json({
+          status: 400,
+          error: "Invalid date range",
+          details: "'from' and 'to' must be valid ISO 8601 dates",
+        });
+      }
+
+      const entries = auditManager.values().filter((entry) => {
+        const timestamp = new Date(entry.timestamp);
+        return (
+          (!entityId || entry.entityId === entityId) &&
+          (!entityType || entry.entityType === entityType) &&
+          (!actor || entry.actorId === actor) &&
+          (!fromDate || timestamp >= fromDate) &&
+          (!toDate || timestamp <= toDate)
+        );
+      });
+
+      const page = paginate(entries, pageQuery);
+      return res.status(200).json({
+        status: 200,
+        message: "Audit entries retrieved successfully",
+        entries: page.items,
+        page: toPageInfo(page),
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      return res.status(500).json({
+        status: 500,
+        error: "Internal server error while fetching audit log",
+      });
+    }
+  });
+
+  return app.listen();
+}, candidMethods);
+
+// Utility functions
+
+// Get current date
+function getCurrentDate() {
+  const timestamp = new Number(ic.time());
+  return new Date(timestamp.valueOf() / 1000_000);
+}
+
+// Insert or update a user and keep the user indexes in step
+function saveUser(user: UserProfile) {
+  const previous = userManager.insert(user.id, user);
+  updateUserIndexes("None" in previous ? null : previous.Some, user);
+}
+
+// Send every user, case and hearing as NDJSON and record the export
+function sendExport(req: express.Request, res: express.Response) {
+  const lines = [
+    ...userManager.values().map((u) => {
+      const { password, ...user } = u;
+      return { entity: ImportEntity.User, ...user, passwordHash: password };
+    }),
+    ...caseManager.values().map((c) => ({ entity: ImportEntity.Case, ...c })),
+    ...hearingManager
+      .values()
+      .map((h) => ({ entity: ImportEntity.Hearing, ...h })),
+  ].map((line) => JSON.stringify(line));
+
+  recordAudit(
+    getCaller(res)!.id,
+    AuditAction.Export,
+    AuditEntityType.Setting,
+    "export",
+    null,
+    null,
+    `Exported ${lines.length} records`
+  );
+  res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="export-${formatCalendarDay(
+      getCurrentDate()
+    )}.ndjson"`
+  );
+  res.status(200).send(lines.join("\n") + "\n");
+}
+
+// Drop every session that has expired. Runs on login, because the removal
+// in resolveCaller is thrown away when the request is a query call.
+function pruneExpiredSessions() {
+  const now = getCurrentDate();
+  for (const [tokenHash, session] of sessionManager.items()) {
+    if (new Date(session.expiresAt) <= now) {
+      sessionManager.remove(tokenHash);
+    }
+  }
+}
+
+// End every session a user has open
+function revokeSessions(userId: string) {
+  for (const [tokenHash, session] of sessionManager.items()) {
+    if (session.userId === userId) {
+      sessionManager.remove(tokenHash);
+    }
+  }
+}
+
+// Revoke every calendar feed token a user has issued
+function revokeCalendarFeeds(userId: string) {
+  for (const [tokenHash, feed] of calendarFeedManager.items()) {
+    if (feed.userId === userId) {
+      calendarFeedManager.remove(tokenHash);
+    }
+  }
+}
+
+// Insert or update a case and keep the case indexes in step
+function saveCase(caseRecord: Case) {
+  const previous = caseManager.insert(caseRecord.id, caseRecord);
+  updateCaseIndexes("None" in previous ? null : previous.Some, caseRecord);
+}
+
+// Insert or update a hearing and keep the hearing indexes in step
+function saveHearing(hearing: Hearing) {
+  const previous = hearingManager.insert(hearing.id, hearing);
+  updateHearingIndexes("None" in previous ? null : previous.Some, hearing);
+}
+
+// Look a user up by username through the index
+function findUserByUsername(username: string): UserProfile | null {
+  const userIdOpt = usernameIndex.get(username);
+  if ("None" in userIdOpt) {
+    return null;
+  }
+
+  const userOpt = userManager.get(userIdOpt.Some);
+  return "None" in userOpt ? null : userOpt.Some;
+}
+
+// Look a user up by their linked principal through the index
+function findUserByPrincipal(principal: string): UserProfile | null {
+  const userIdOpt = principalIndex.get(principal);
+  if ("None" in userIdOpt) {
+    return null;
+  }
+
+  const userOpt = userManager.get(userIdOpt.Some);
+  return "None" in userOpt ? null : userOpt.Some;
+}
+
+// Look a user up by email through the index
+function findUserByEmail(email: string): UserProfile | null {
+  const userIdOpt = emailIndex.get(email);
+  if ("None" in userIdOpt) {
+    return null;
+  }
+
+  const userOpt = userManager.get(userIdOpt.Some);
+  return "None" in userOpt ? null : userOpt.Some;
+}
+
+// Load the records an index lists under a key, skipping dangling IDs
+function getIndexedRecords<T>(
+  index: StableMap<string, string[]>,
+  key: string,
+  manager: StableMap<string, T>
+): T[] {
+  const idsOpt = index.get(key);
+  if ("None" in idsOpt) {
+    return [];
+  }
+
+  const records: T[] = [];
+  for (const id of idsOpt.Some) {
+    const recordOpt = manager.get(id);
+    if (!("None" in recordOpt)) {
+      records.push(recordOpt.Some);
+    }
+  }
+
+  return records;
+}
+
+// Move an ID between the keys of a multi-valued index
+function reindex(
+  index: StableMap<string, string[]>,
+  id: string,
+  previousKeys: (string | null | undefined)[],
+  nextKeys: (string | null | undefined)[]
+) {
+  for (const key of previousKeys) {
+    if (key && !nextKeys.includes(key)) {
+      const idsOpt = index.get(key);
+      const ids = "None" in idsOpt ? [] : idsOpt.Some.filter((i) => i !== id);
+      if (ids.length === 0) {
+        index.remove(key);
+      } else {
+        index.insert(key, ids);
+      }
+    }
+  }
+
+  for (const key of nextKeys) {
+    if (key) {
+      const idsOpt = index.get(key);
+      const ids = "None" in idsOpt ? [] : idsOpt.Some;
+      if (!ids.includes(id)) {
+        index.insert(key, [...ids, id]);
+      }
+    }
+  }
+}
+
+// Point a unique index key at an ID, dropping the old key if it changed
+function reindexUnique(
+  index: StableMap<string, string>,
+  id: string,
+  previousKey: string | null | undefined,
+  nextKey: string | null | undefined
+) {
+  if (previousKey && previousKey !== nextKey) {
+    const ownerOpt = index.get(previousKey);
+    if (!("None" in ownerOpt) && ownerOpt.Some === id) {
+      index.remove(previousKey);
+    }
+  }
+
+  if (nextKey) {
+    index.insert(nextKey, id);
+  }
+}
+
+// Update the username and email indexes after a user write
+function updateUserIndexes(
+  previous: UserProfile | null,
+  next: UserProfile | null
+) {
+  const id = (next ?? previous)!.id;
+  reindexUnique(usernameIndex, id, previous?.username, next?.username);
+  reindexUnique(emailIndex, id, previous?.email, next?.email);
+  reindexUnique(principalIndex, id, previous?.principal, next?.principal);
+}
+
+// Update the judge, lawyer and case number indexes after a case write
+function updateCaseIndexes(previous: Case | null, next: Case | null) {
+  const id = (next ?? previous)!.id;
+  reindex(judgeCaseIndex, id, [previous?.judgeId], [next?.judgeId]);
+  reindex(
+    lawyerCaseIndex,
+    id,
+    previous?.lawyerIds ?? [],
+    next?.lawyerIds ?? []
+  );
+  reindex(caseNumberIndex, id, [previous?.caseNumber], [next?.caseNumber]);
+}
+
+// Update the case and judge indexes after a hearing write
+function updateHearingIndexes(previous: Hearing | null, next: Hearing | null) {
+  const id = (next ?? previous)!.id;
+  reindex(caseHearingIndex, id, [previous?.caseId], [next?.caseId]);
+  reindex(judgeHearingIndex, id, [previous?.judgeId], [next?.judgeId]);
+}
+
+// Clear every secondary index and rebuild it from the primary records
+function rebuildIndexes() {
+  const indexes = [
+    judgeCaseIndex,
+    lawyerCaseIndex,
+    caseHearingIndex,
+    judgeHearingIndex,
+    usernameIndex,
+    emailIndex,
+    principalIndex,
+    caseNumberIndex,
+  ];
+  for (const index of indexes) {
+    for (const key of index.keys()) {
+      index.remove(key);
+    }
+  }
+
+  const users = userManager.values();
+  users.forEach((user) => updateUserIndexes(null, user));
+
+  const cases = caseManager.values();
+  cases.forEach((caseRecord) => updateCaseIndexes(null, caseRecord));
+
+  const hearings = hearingManager.values();
+  hearings.forEach((hearing) => updateHearingIndexes(null, hearing));
+
+  indexMetadata.insert("version", INDEX_VERSION);
+
+  return {
+    users: users.length,
+    cases: cases.length,
+    hearings: hearings.length,
+  };
+}
+
+// Wrap a stable map so every record read from it is upgraded to the current
+// schema. Upgrades are not written back here; saving the record or the
+// background migration does that.
+function withMigrations<V extends { schemaVersion: number }>(
+  records: StableMap<string, V>,
+  migrations: Migration<V>[]
+): StableMap<string, V> {
+  const upgrade = (record: V): V => migrateRecord(record, migrations);
+  const upgradeOpt = (opt: Opt<V>): Opt<V> =>
+    "None" in opt ? opt : { Some: upgrade(opt.Some) };
+
+  return {
+    ...records,
+    get: (key) => upgradeOpt(records.get(key)),
+    insert: (key, value) => upgradeOpt(records.insert(key, value)),
+    remove: (key) => upgradeOpt(records.remove(key)),
+    items: (startIndex, length) =>
+      records
+        .items(startIndex, length)
+        .map(([key, value]) => [key, upgrade(value)]),
+    values: (startIndex, length) =>
+      records.values(startIndex, length).map(upgrade),
+  };
+}
+
+// Run the migrations a record has not had yet, oldest first. Together the
+// migrations fill in every field an older version lacks.
+function migrateRecord<T extends { schemaVersion: number }>(
+  record: T,
+  migrations: Migration<T>[]
+): T {
+  // Records written before versioning have no schemaVersion
+  const version = record.schemaVersion ?? 0;
+  const upgraded = migrations
+    .filter((migration) => migration.version > version)
+    .reduce<Partial<T>>(
+      (previous, migration) => ({
+        ...migration.up(previous),
+        schemaVersion: migration.version,
+      }),
+      record
+    );
+  return upgraded as T;
+}
+
+// Map a free-text status from before the status lifecycle onto CaseStatus,
+// ignoring case; anything unrecognised becomes Open, the old default
+function parseLegacyCaseStatus(status: unknown): CaseStatus {
+  return (
+    Object.values(CaseStatus).find(
+      (s) => s.toLowerCase() === String(status).toLowerCase()
+    ) ?? CaseStatus.Open
+  );
+}
+
+function getMigrationTargets(): [
+  MigrationTarget<UserProfile>,
+  MigrationTarget<Case>,
+  MigrationTarget<Hearing>,
+] {
+  return [
+    {
+      entity: "user",
+      records: userRecords,
+      migrations: userMigrations,
+      version: USER_SCHEMA_VERSION,
+      save: saveUser,
+    },
+    {
+      entity: "case",
+      records: caseRecords,
+      migrations: caseMigrations,
+      version: CASE_SCHEMA_VERSION,
+      save: saveCase,
+    },
+    {
+      entity: "hearing",
+      records: hearingRecords,
+      migrations: hearingMigrations,
+      version: HEARING_SCHEMA_VERSION,
+      save: saveHearing,
+    },
+  ];
+}
+
+// Get the migration progress for the current schema version, starting over
+// when the version has moved on since the last run
+function getMigrationProgress(target: {
+  entity: string;
+  version: number;
+}): MigrationProgress {
+  const progressOpt = migrationProgressManager.get(target.entity);
+  if (
+    !("None" in progressOpt) &&
+    progressOpt.Some.targetVersion === target.version
+  ) {
+    return progressOpt.Some;
+  }
+
+  return {
+    entity: target.entity,
+    targetVersion: target.version,
+    nextIndex: 0,
+    scanned: 0,
+    migrated: 0,
+    startedAt: getCurrentDate(),
+    completedAt: null,
+  };
+}
+
+// Scan up to 'limit' stored records, carrying on where the last batch
+// stopped, and save the ones on an old schema version. Records written
+// during a run are already current, so a record skipped because keys moved
+// is still upgraded when it is next read.
+function runMigrationBatch(limit: number): MigrationProgress[] {
+  let remaining = limit;
+
+  const runTarget = <T extends { schemaVersion: number }>(
+    target: MigrationTarget<T>
+  ): MigrationProgress => {
+    const progress = getMigrationProgress(target);
+    if (progress.completedAt || remaining === 0) {
+      return progress;
+    }
+
+    const items = target.records.items(progress.nextIndex, remaining);
+    for (const [, record] of items) {
+      if ((record.schemaVersion ?? 0) < target.version) {
+        target.save(migrateRecord(record, target.migrations));
+        progress.migrated++;
+      }
+    }
+
+    remaining -= items.length;
+    progress.nextIndex += items.length;
+    progress.scanned += items.length;
+    if (progress.nextIndex >= Number(target.records.len())) {
+      progress.completedAt = getCurrentDate();
+    }
+
+    migrationProgressManager.insert(target.entity, progress);
+    return progress;
+  };
+
+  const [users, cases, hearings] = getMigrationTargets();
+  return [runTarget(users), runTarget(cases), runTarget(hearings)];
+}
+
+// Run one background migration batch and queue the next until every kind
+// of record is done
+function scheduleMigrationBatch() {
+  ic.setTimer(0n, () => {
+    const progress = runMigrationBatch(MIGRATION_BATCH_SIZE);
+    if (progress.some((p) => !p.completedAt)) {
+      scheduleMigrationBatch();
+    }
+  });
+}
+
+// Describe migration progress for the admin route
+function describeMigrations() {
+  return getMigrationTargets().map((target) => {
+    const progress = getMigrationProgress(target);
+    const total = Number(target.records.len());
+    return {
+      entity: target.entity,
+      schemaVersion: target.version,
+      migrations: target.migrations.map(({ version, description }) => ({
+        version,
+        description,
+      })),
+      total: total,
+      scanned: progress.scanned,
+      migrated: progress.migrated,
+      remaining: progress.completedAt
+        ? 0
+        : Math.max(total - progress.nextIndex, 0),
+      startedAt: progress.startedAt,
+      completedAt: progress.completedAt,
+    };
+  });
+}
+
+// Parse 'limit', 'cursor', 'sortBy' and 'order' from a query string.
+// Returns the page query or a validation error.
+function parsePageQuery(
+  query: express.Request["query"],
+  sortableFields: string[],
+  defaultSortBy: string
+): PageQuery | string {
+  const limit =
+    query.limit === undefined ? DEFAULT_PAGE_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    return `Invalid limit: Ensure 'limit' is a whole number between 1 and ${MAX_PAGE_LIMIT}.`;
+  }
+
+  const sortBy =
+    query.sortBy === undefined ? defaultSortBy : String(query.sortBy);
+  if (!sortableFields.includes(sortBy)) {
+    return `Invalid sortBy: Ensure 'sortBy' is one of ${sortableFields.join(
+      ", "
+    )}.`;
+  }
+
+  const order = query.order === undefined ? "asc" : String(query.order);
+  if (order !== "asc" && order !== "desc") {
+    return "Invalid order: Ensure 'order' is 'asc' or 'desc'.";
+  }
+
+  let cursor: [unknown, string] | null = null;
+  if (query.cursor !== undefined) {
+    try {
+      cursor = JSON.parse(Buffer.from(String(query.cursor), "hex").toString());
+    } catch {
+      cursor = null;
+    }
+
+    if (!Array.isArray(cursor) || typeof cursor[1] !== "string") {
+      return "Invalid cursor: Pass back the 'nextCursor' of a previous page.";
+    }
+  }
+
+  return { limit, cursor, sortBy, order };
+}
+
+// Sort items by the requested field (ties broken by ID) and return the page
+// after the cursor. Cursors hold the sort value and ID of the last item seen,
+// so pages stay stable while records are added or removed.
+function paginate<T extends { id: string }>(
+  items: T[],
+  pageQuery: PageQuery
+): Page<T> {
+  const direction = pageQuery.order === "asc" ? 1 : -1;
+  const sortKey = (item: T): [unknown, string] => [
+    (item as Record<string, unknown>)[pageQuery.sortBy] ?? null,
+    item.id,
+  ];
+  const compareKeys = (a: [unknown, string], b: [unknown, string]) =>
+    (compareValues(a[0], b[0]) || compareValues(a[1], b[1])) * direction;
+
+  const sorted = [...items].sort((a, b) => compareKeys(sortKey(a), sortKey(b)));
+  const cursor = pageQuery.cursor;
+  const remaining = cursor
+    ? sorted.filter((item) => compareKeys(sortKey(item), cursor) > 0)
+    : sorted;
+
+  const pageItems = remaining.slice(0, pageQuery.limit);
+  const lastItem = pageItems[pageItems.length - 1];
+  const nextCursor =
+    remaining.length > pageQuery.limit
+      ? Buffer.from(JSON.stringify(sortKey(lastItem))).toString("hex")
+      : null;
+
+  return {
+    items: pageItems,
+    total: items.length,
+    limit: pageQuery.limit,
+    nextCursor: nextCursor,
+  };
+}
+
+// Describe a page without its items
+function toPageInfo<T>(page: Page<T>) {
+  return {
+    total: page.total,
+    limit: page.limit,
+    nextCursor: page.nextCursor,
+  };
+}
+
+// Order two sort values: missing values last, numbers numerically and
+// everything else (including ISO dates) as case-insensitive text
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+
+  if (a === null || a === undefined) {
+    return 1;
+  }
+
+  if (b === null || b === undefined) {
+    return -1;
+  }
+
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  const left = String(a).toLowerCase();
+  const right = String(b).toLowerCase();
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Case-insensitive substring search over a record's text fields
+function matchesSearch(
+  search: unknown,
+  fields: (string | null | undefined)[]
+): boolean {
+  if (!search) {
+    return true;
+  }
+
+  const needle = String(search).toLowerCase();
+  return fields.some((field) => (field ?? "").toLowerCase().includes(needle));
+}
+
+// Parse an optional date range from two query parameters.
+// Returns the range or a validation error.
+function parseDateRange(
+  query: express.Request["query"],
+  fromKey: string,
+  toKey: string
+): { from: Date | null; to: Date | null } | string {
+  const from = query[fromKey] ? new Date(String(query[fromKey])) : null;
+  const to = query[toKey] ? new Date(String(query[toKey])) : null;
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return `Invalid date range: Ensure '${fromKey}' and '${toKey}' are valid ISO 8601 dates.`;
+  }
+
+  return { from, to };
+}
+
+// Check whether a date falls inside an optional range
+function isWithinDateRange(
+  value: Date | string,
+  range: { from: Date | null; to: Date | null }
+): boolean {
+  const date = new Date(value);
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+// Parse the report date range and judge filter. 'to' defaults to now and
+// 'from' to a year before it.
+function parseReportFilter(
+  query: express.Request["query"]
+): ReportFilter | string {
+  const range = parseDateRange(query, "from", "to");
+  if (typeof range === "string") {
+    return range;
+  }
+
+  const to = range.to ?? getCurrentDate();
+  const from = range.from ?? addMonths(to, -DEFAULT_REPORT_MONTHS);
+  if (from > to) {
+    return "Invalid date range: 'from' must be before 'to'.";
+  }
+
+  if (from < addMonths(to, -MAX_REPORT_MONTHS)) {
+    return `Invalid date range: Reports can cover at most ${MAX_REPORT_MONTHS} months.`;
+  }
+
+  return {
+    from: from,
+    to: to,
+    judgeId: query.judgeId ? String(query.judgeId) : null,
+  };
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+// Split a report range into calendar months (UTC), clipped to the range
+function getReportMonths(
+  filter: ReportFilter
+): { month: string; from: Date; to: Date }[] {
+  const months = [];
+  let start = new Date(
+    Date.UTC(filter.from.getUTCFullYear(), filter.from.getUTCMonth(), 1)
+  );
+  while (start <= filter.to) {
+    const next = addMonths(start, 1);
+    months.push({
+      month: start.toISOString().slice(0, 7),
+      from: start < filter.from ? filter.from : start,
+      to:
+        next.getTime() - 1 > filter.to.getTime()
+          ? filter.to
+          : new Date(next.getTime() - 1),
+    });
+    start = next;
+  }
+
+  return months;
+}
+
+// The cases a report covers: all of them, or the judge's
+function getReportCases(filter: ReportFilter): Case[] {
+  return filter.judgeId
+    ? getIndexedRecords(judgeCaseIndex, filter.judgeId, caseManager)
+    : caseManager.values();
+}
+
+// The hearings a report covers, by hearing date
+function getReportHearings(filter: ReportFilter): Hearing[] {
+  const hearings = filter.judgeId
+    ? getIndexedRecords(judgeHearingIndex, filter.judgeId, hearingManager)
+    : hearingManager.values();
+  return hearings.filter((h) => isWithinDateRange(h.date, filter));
+}
+
+// A case's status at a point in time, read from its status history. Cases
+// with no history count as being in their current status since filing.
+function getCaseStatusAt(caseRecord: Case, date: Date): string | null {
+  if (new Date(caseRecord.createdAt) > date) {
+    return null;
+  }
+
+  const history = caseRecord.statusHistory ?? [];
+  if (history.length === 0) {
+    return caseRecord.status;
+  }
+
+  const changes = history.filter((h) => new Date(h.changedAt) <= date);
+  return changes.length > 0 ? changes[changes.length - 1].to : CaseStatus.Filed;
+}
+
+function isCasePendingAt(caseRecord: Case, date: Date): boolean {
+  const status = getCaseStatusAt(caseRecord, date);
+  return status !== null && !closedCaseStatuses.includes(status);
+}
+
+// When a closed case was disposed of: its last move into a closed status
+function getDispositionDate(caseRecord: Case): Date | null {
+  if (!isCaseClosed(caseRecord)) {
+    return null;
+  }
+
+  const change = [...(caseRecord.statusHistory ?? [])]
+    .reverse()
+    .find((h) => closedCaseStatuses.includes(h.to));
+  const date = change?.changedAt ?? caseRecord.updatedAt;
+  return date ? new Date(date) : null;
+}
+
+function getCaseAgeDays(caseRecord: Case, asOf: Date): number {
+  return Math.floor(
+    (asOf.getTime() - new Date(caseRecord.createdAt).getTime()) / DAY_MS
+  );
+}
+
+function getUsername(userId: string): string | null {
+  const userOpt = userManager.get(userId);
+  return "None" in userOpt ? null : userOpt.Some.username;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// A share as a percentage to one decimal place; null when there is nothing
+// to divide by
+function percentage(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 1000) / 10;
+}
+
+function average(total: number, count: number): number | null {
+  return count === 0 ? null : Math.round((total / count) * 100) / 100;
+}
+
+// Group records by a key, keeping first-seen order
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+
+  return groups;
+}
+
+const reportDefinitions: Record<ReportName, ReportDefinition> = {
+  [ReportName.ClearanceRate]: {
+    description: "Cases disposed of as a percentage of cases filed, by month",
+    build: (filter) => {
+      const cases = getReportCases(filter);
+      const rows = getReportMonths(filter).map((month) => {
+        const filed = cases.filter((c) =>
+          isWithinDateRange(c.createdAt, month)
+        ).length;
+        const disposed = cases.filter((c) => {
+          const disposedAt = getDispositionDate(c);
+          return disposedAt !== null && isWithinDateRange(disposedAt, month);
+        }).length;
+        return {
+          month: month.month,
+          filed: filed,
+          disposed: disposed,
+          clearanceRate: percentage(disposed, filed),
+        };
+      });
+
+      const filed = rows.reduce((total, r) => total + r.filed, 0);
+      const disposed = rows.reduce((total, r) => total + r.disposed, 0);
+      return {
+        columns: ["month", "filed", "disposed", "clearanceRate"],
+        rows: rows,
+        summary: {
+          filed: filed,
+          disposed: disposed,
+          clearanceRate: percentage(disposed, filed),
+        },
+      };
+    },
+  },
+
+  [ReportName.PendingAge]: {
+    description:
+      "Cases pending at the end of the range, grouped by days since filing",
+    build: (filter) => {
+      const ages = getReportCases(filter)
+        .filter((c) => isCasePendingAt(c, filter.to))
+        .map((c) => getCaseAgeDays(c, filter.to));
+
+      return {
+        columns: ["ageDays", "cases"],
+        rows: pendingAgeBuckets.map((bucket, index) => ({
+          ageDays: bucket.label,
+          cases: ages.filter(
+            (age) =>
+              age <= bucket.maxDays &&
+              (index === 0 || age > pendingAgeBuckets[index - 1].maxDays)
+          ).length,
+        })),
+        summary: {
+          asOf: filter.to.toISOString(),
+          pending: ages.length,
+          medianAgeDays: median(ages),
+          oldestDays: ages.length > 0 ? Math.max(...ages) : null,
+        },
+      };
+    },
+  },
+
+  [ReportName.TimeToDisposition]: {
+    description:
+      "Median days from filing to disposition for cases disposed of in the range, by case type",
+    build: (filter) => {
+      const disposed = getReportCases(filter).flatMap((c) => {
+        const disposedAt = getDispositionDate(c);
+        return disposedAt && isWithinDateRange(disposedAt, filter)
+          ? [{ caseType: c.caseType, days: getCaseAgeDays(c, disposedAt) }]
+          : [];
+      });
+
+      const rows = [...groupBy(disposed, (d) => d.caseType).entries()].map(
+        ([caseType, group]) => ({
+          caseType: caseType,
+          disposed: group.length,
+          medianDays: median(group.map((d) => d.days)),
+        })
+      );
+      return {
+        columns: ["caseType", "disposed", "medianDays"],
+        rows: rows,
+        summary: {
+          disposed: disposed.length,
+          medianDays: median(disposed.map((d) => d.days)),
+        },
+      };
+    },
+  },
+
+  [ReportName.HearingsPerCase]: {
+    description:
+      "Hearings held or booked per case for cases filed in the range, by case type. Cancelled hearings are left out.",
+    build: (filter) => {
+      const cases = getReportCases(filter).filter((c) =>
+        isWithinDateRange(c.createdAt, filter)
+      );
+      const counts = cases.map((c) => ({
+        caseType: c.caseType,
+        hearings: getIndexedRecords(
+          caseHearingIndex,
+          c.id,
+          hearingManager
+        ).filter((h) => getHearingStatus(h) !== HearingStatus.Cancelled).length,
+      }));
+      const sum = (group: typeof counts) =>
+        group.reduce((total, c) => total + c.hearings, 0);
+
+      const rows = [...groupBy(counts, (c) => c.caseType).entries()].map(
+        ([caseType, group]) => ({
+          caseType: caseType,
+          cases: group.length,
+          hearings: sum(group),
+          hearingsPerCase: average(sum(group), group.length),
+        })
+      );
+      return {
+        columns: ["caseType", "cases", "hearings", "hearingsPerCase"],
+        rows: rows,
+        summary: {
+          cases: counts.length,
+          hearings: sum(counts),
+          hearingsPerCase: average(sum(counts), counts.length),
+          medianHearings: median(counts.map((c) => c.hearings)),
+        },
+      };
+    },
+  },
+
+  [ReportName.AdjournmentRate]: {
+    description:
+      "Adjourned hearings as a percentage of concluded hearings in the range, by judge",
+    build: (filter) => {
+      const hearings = getReportHearings(filter).filter((h) =>
+        concludedHearingStatuses.includes(getHearingStatus(h))
+      );
+      const isAdjourned = (h: Hearing) =>
+        getHearingStatus(h) === HearingStatus.Adjourned;
+
+      const rows = [...groupBy(hearings, (h) => h.judgeId).entries()].map(
+        ([judgeId, group]) => ({
+          judgeId: judgeId,
+          judgeName: getUsername(judgeId),
+          concluded: group.length,
+          adjourned: group.filter(isAdjourned).length,
+          adjournmentRate: percentage(
+            group.filter(isAdjourned).length,
+            group.length
+          ),
+        })
+      );
+      const adjourned = hearings.filter(isAdjourned).length;
+      return {
+        columns: [
+          "judgeId",
+          "judgeName",
+          "concluded",
+          "adjourned",
+          "adjournmentRate",
+        ],
+        rows: rows,
+        summary: {
+          concluded: hearings.length,
+          adjourned: adjourned,
+          adjournmentRate: percentage(adjourned, hearings.length),
+        },
+      };
+    },
+  },
+
+  [ReportName.JudgeCaseload]: {
+    description:
+      "Cases filed, disposed of and pending at month end for each judge, by month. Cases count towards their current judge.",
+    build: (filter) => {
+      const byJudge = groupBy(
+        getReportCases(filter).filter((c) => c.judgeId),
+        (c) => c.judgeId!
+      );
+
+      const rows = getReportMonths(filter).flatMap((month) =>
+        [...byJudge.entries()].map(([judgeId, cases]) => ({
+          month: month.month,
+          judgeId: judgeId,
+          judgeName: getUsername(judgeId),
+          filed: cases.filter((c) => isWithinDateRange(c.createdAt, month))
+            .length,
+          disposed: cases.filter((c) => {
+            const disposedAt = getDispositionDate(c);
+            return disposedAt !== null && isWithinDateRange(disposedAt, month);
+          }).length,
+          pending: cases.filter((c) => isCasePendingAt(c, month.to)).length,
+        }))
+      );
+      return {
+        columns: [
+          "month",
+          "judgeId",
+          "judgeName",
+          "filed",
+          "disposed",
+          "pending",
+        ],
+        rows: rows,
+        summary: {
+          judges: byJudge.size,
+          pending: [...byJudge.values()]
+            .flat()
+            .filter((c) => isCasePendingAt(c, filter.to)).length,
+        },
+      };
+    },
+  },
+
+  [ReportName.CourtroomUtilisation]: {
+    description:
+      "Minutes booked in each courtroom as a percentage of its sitting time on court days in the range. Cancelled hearings are left out.",
+    build: (filter) => {
+      let courtDays = 0;
+      for (
+        let day = new Date(filter.from);
+        day <= filter.to;
+        day = new Date(day.getTime() + DAY_MS)
+      ) {
+        courtDays += isCourtDay(day) ? 1 : 0;
+      }
+      const availableMinutes = courtDays * COURT_SITTING_MINUTES_PER_DAY;
+
+      const hearings = getReportHearings(filter).filter(
+        (h) => h.courtroomId && getHearingStatus(h) !== HearingStatus.Cancelled
+      );
+      const byCourtroom = groupBy(hearings, (h) => h.courtroomId!);
+
+      const rows = courtroomManager
+        .values()
+        .filter((room) => room.active || byCourtroom.has(room.id))
+        .map((room) => {
+          const booked = (byCourtroom.get(room.id) ?? []).reduce(
+            (total, h) => total + h.durationMinutes,
+            0
+          );
+          return {
+            courtroomId: room.id,
+            courtroomName: room.name,
+            hearings: (byCourtroom.get(room.id) ?? []).length,
+            bookedMinutes: booked,
+            availableMinutes: availableMinutes,
+            utilisation: percentage(booked, availableMinutes),
+          };
+        });
+
+      const booked = rows.reduce((total, r) => total + r.bookedMinutes, 0);
+      return {
+        columns: [
+          "courtroomId",
+          "courtroomName",
+          "hearings",
+          "bookedMinutes",
+          "availableMinutes",
+          "utilisation",
+        ],
+        rows: rows,
+        summary: {
+          courtDays: courtDays,
+          courtrooms: rows.length,
+          bookedMinutes: booked,
+          utilisation: percentage(booked, availableMinutes * rows.length),
+        },
+      };
+    },
+  },
+};
+
+// Write report rows as RFC 4180 CSV with a header line
+function formatCsv(
+  columns: string[],
+  rows: Record<string, ReportValue>[]
+): string {
+  const formatValue = (value: ReportValue) => {
+    const text = value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return (
+    [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+      .map((line) => line.map(formatValue).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+// Check that the record a calendar feed shows exists
+function findCalendarFeedTarget(
+  scope: CalendarFeedScope,
+  targetId: string
+): boolean {
+  switch (scope) {
+    case CalendarFeedScope.Judge:
+    case CalendarFeedScope.Lawyer: {
+      const userOpt = userManager.get(targetId);
+      const role =
+        scope === CalendarFeedScope.Judge ? UserRole.Judge : UserRole.Lawyer;
+      return !("None" in userOpt) && userOpt.Some.role === role;
+    }
+    case CalendarFeedScope.Case:
+      return !("None" in caseManager.get(targetId));
+    case CalendarFeedScope.Courtroom:
+      return !("None" in courtroomManager.get(targetId));
+  }
+}
+
+// Mirror the guards on the feed routes, so a token is only issued to a
+// user who can read the feed
+function canReadCalendarFeed(
+  user: UserProfile,
+  scope: CalendarFeedScope,
+  targetId: string
+): boolean {
+  switch (scope) {
+    case CalendarFeedScope.Judge:
+      return (
+        user.id === targetId || hasPermission(user, Permission.ViewJudgeDockets)
+      );
+    case CalendarFeedScope.Lawyer:
+      return (
+        user.id === targetId ||
+        hasPermission(user, Permission.ViewLawyerDockets)
+      );
+    case CalendarFeedScope.Case:
+      return canViewCaseById(user, targetId);
+    // The feed itself leaves out hearings the user cannot view
+    case CalendarFeedScope.Courtroom:
+      return true;
+  }
+}
+
+// The feed route a calendar feed token unlocks
+function getCalendarFeedPath(feed: CalendarFeed): string {
+  const collections: Record<CalendarFeedScope, string> = {
+    [CalendarFeedScope.Judge]: "judges",
+    [CalendarFeedScope.Lawyer]: "lawyers",
+    [CalendarFeedScope.Case]: "cases",
+    [CalendarFeedScope.Courtroom]: "courtrooms",
+  };
+  return `/${collections[feed.scope]}/${feed.targetId}/calendar.ics`;
+}
+
+// Strip the token hash before returning a calendar feed
+function toPublicCalendarFeed(feed: CalendarFeed) {
+  const { tokenHash, ...publicFeed } = feed;
+  return { ...publicFeed, path: getCalendarFeedPath(feed) };
+}
+
+// Send hearings as an RFC 5545 calendar
+function sendCalendar(
+  res: express.Response,
+  name: string,
+  hearings: Hearing[]
+) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", 'inline; filename="calendar.ics"');
+  res.status(200).send(buildICalendar(name, hearings));
+}
+
+// iCalendar STATUS for each hearing status. Adjourned and no-show hearings
+// did not go ahead as booked, so they show as cancelled. A completed
+// hearing is neither pending nor cancelled, so it is sent without a STATUS.
+const hearingEventStatuses: Record<HearingStatus, string | null> = {
+  [HearingStatus.Scheduled]: "CONFIRMED",
+  [HearingStatus.InProgress]: "CONFIRMED",
+  [HearingStatus.Adjourned]: "CANCELLED",
+  [HearingStatus.Cancelled]: "CANCELLED",
+  [HearingStatus.Completed]: null,
+  [HearingStatus.NoShow]: "CANCELLED",
+};
+
+// Build a VCALENDAR with one VEVENT per hearing. UIDs come from the hearing
+// ID so calendar apps update events in place when a hearing changes.
+function buildICalendar(name: string, hearings: Hearing[]): string {
+  const now = formatICalendarDate(getCurrentDate());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Muvix//Court Case Management//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalendarText(name)}`,
+  ];
+
+  for (const hearing of hearings) {
+    const caseOpt = caseManager.get(hearing.caseId);
+    const caseLabel =
+      "None" in caseOpt
+        ? hearing.caseId
+        : `${caseOpt.Some.caseNumber} ${caseOpt.Some.title}`;
+    const status = getHearingStatus(hearing);
+    const eventStatus = hearingEventStatuses[status];
+    // Final statuses change the event, so they bump its sequence
+    const ended = !activeHearingStatuses.includes(status);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${hearing.id}@muvix`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatICalendarDate(new Date(hearing.date))}`,
+      `DTEND:${formatICalendarDate(getHearingEnd(hearing))}`,
+      `SUMMARY:${escapeICalendarText(
+        ended ? `Hearing (${status}): ${caseLabel}` : `Hearing: ${caseLabel}`
+      )}`,
+      `LOCATION:${escapeICalendarText(hearing.location)}`,
+      `DESCRIPTION:${escapeICalendarText(hearing.description)}`,
+      ...(eventStatus ? [`STATUS:${eventStatus}`] : []),
+      `SEQUENCE:${(hearing.rescheduleHistory ?? []).length + (ended ? 1 : 0)}`,
+      `LAST-MODIFIED:${formatICalendarDate(
+        new Date(hearing.updatedAt ?? hearing.createdAt)
+      )}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalendarLine).join("\r\n") + "\r\n";
+}
+
+// Format a date as an iCalendar UTC date-time, e.g. 20240102T093000Z
+function formatICalendarDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// Escape text values as required by RFC 5545
+function escapeICalendarText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold lines longer than 75 octets onto continuation lines
+function foldICalendarLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// Validate the date, duration and courtroom of a hearing booking, falling
+// back to an existing hearing's duration and courtroom when given.
+// Returns the parsed slot or a validation error.
+function parseHearingSlot(
+  body: HearingSlotInput,
+  fallback: Hearing | null
+): HearingSlot | string {
+  const date =
+    typeof body.date === "string" || typeof body.date === "number"
+      ? new Date(body.date)
+      : null;
+  if (!date || isNaN(date.getTime())) {
+    return "Invalid date: Ensure 'date' is a valid ISO 8601 date.";
+  }
+
+  const durationMinutes =
+    body.durationMinutes ??
+    fallback?.durationMinutes ??
+    DEFAULT_HEARING_DURATION_MINUTES;
+  if (
+    typeof durationMinutes !== "number" ||
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes <= 0 ||
+    durationMinutes > MAX_HEARING_DURATION_MINUTES
+  ) {
+    return `Invalid duration: Ensure 'durationMinutes' is a whole number between 1 and ${MAX_HEARING_DURATION_MINUTES}.`;
+  }
+
+  const courtroomId = body.courtroomId ?? fallback?.courtroomId;
+  const courtroomOpt = courtroomManager.get(
+    typeof courtroomId === "string" ? courtroomId : ""
+  );
+  if ("None" in courtroomOpt || !courtroomOpt.Some.active) {
+    return "Courtroom not found: Ensure 'courtroomId' is the ID of an active courtroom.";
+  }
+
+  return { date, durationMinutes, courtroom: courtroomOpt.Some };
+}
+
+// Load a hearing the caller may change. Sends the 404 or 403 response and
+// returns null when they cannot.
+function getHearingForUpdate(
+  hearingId: string,
+  res: express.Response
+): Hearing | null {
+  const hearingOpt = hearingManager.get(hearingId);
+  if ("None" in hearingOpt) {
+    res.status(404).json({
+      status: 404,
+      error: `Hearing with id ${hearingId} not found`,
+    });
+    return null;
+  }
+
+  const caseOpt = caseManager.get(hearingOpt.Some.caseId);
+  if ("None" in caseOpt || !canManageCase(getCaller(res)!, caseOpt.Some)) {
+    forbidden(
+      res,
+      "Only the assigned judge or court staff can change hearings for this case"
+    );
+    return null;
+  }
+
+  return hearingOpt.Some;
+}
+
+// Get a hearing's status; records written before hearings had a status
+// count as scheduled
+function getHearingStatus(hearing: Hearing): HearingStatus {
+  return hearing.status ?? HearingStatus.Scheduled;
+}
+
+// Check whether a hearing still occupies its slot
+function isHearingActive(hearing: Hearing): boolean {
+  return activeHearingStatuses.includes(getHearingStatus(hearing));
+}
+
+// Move a hearing to a new status if the transition table allows it.
+// Returns the updated hearing or a description of the illegal move.
+function changeHearingStatus(
+  hearing: Hearing,
+  to: HearingStatus,
+  changes: Partial<Hearing>
+): Hearing | string {
+  const from = getHearingStatus(hearing);
+  if (!hearingStatusTransitions[from].includes(to)) {
+    return `Cannot move a hearing from ${from} to ${to}`;
+  }
+
+  return {
+    ...hearing,
+    ...changes,
+    status: to,
+    updatedAt: getCurrentDate(),
+  };
+}
+
+// Get the end of a hearing; records written before hearings had a duration
+// are treated as lasting the default duration
+function getHearingEnd(hearing: Hearing): Date {
+  if (hearing.endDate) {
+    return new Date(hearing.endDate);
+  }
+
+  return new Date(
+    new Date(hearing.date).getTime() +
+      DEFAULT_HEARING_DURATION_MINUTES * 60 * 1000
+  );
+}
+
+// Find existing hearings that overlap a hearing and share its judge, its
+// location or any lawyer on its case
+function findHearingConflicts(hearing: Hearing): HearingConflict[] {
+  const start = new Date(hearing.date).getTime();
+  const end = getHearingEnd(hearing).getTime();
+
+  const lawyerIds = getCaseLawyerIds(hearing.caseId);
+
+  const conflicts: HearingConflict[] = [];
+  for (const other of hearingManager.values()) {
+    if (
+      other.id === hearing.id ||
+      !isHearingActive(other) ||
+      isJointHearing(hearing, other)
+    ) {
+      continue;
+    }
+
+    const otherStart = new Date(other.date).getTime();
+    const otherEnd = getHearingEnd(other).getTime();
+    if (otherStart >= end || otherEnd <= start) {
+      continue;
+    }
+
+    const conflictsOn: HearingConflictType[] = [];
+    if (other.judgeId === hearing.judgeId) {
+      conflictsOn.push(HearingConflictType.Judge);
+    }
+
+    if (isSameHearingLocation(hearing, other)) {
+      conflictsOn.push(HearingConflictType.Location);
+    }
+
+    const sharedLawyerIds = getCaseLawyerIds(other.caseId).filter((id) =>
+      lawyerIds.includes(id)
+    );
+    if (sharedLawyerIds.length > 0) {
+      conflictsOn.push(HearingConflictType.Lawyer);
+    }
+
+    if (conflictsOn.length > 0) {
+      conflicts.push({
+        hearing: other,
+        conflictsOn: conflictsOn,
+        lawyerIds: sharedLawyerIds,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Consolidated cases are heard together, so a lead hearing and the hearings
+// propagated from it never conflict with each other
+function isJointHearing(a: Hearing, b: Hearing): boolean {
+  return (
+    a.leadHearingId === b.id ||
+    b.leadHearingId === a.id ||
+    (!!a.leadHearingId && a.leadHearingId === b.leadHearingId)
+  );
+}
+
+// Compare hearing locations by courtroom, falling back to the free-text
+// location for hearings booked before the courtroom registry existed
+function isSameHearingLocation(a: Hearing, b: Hearing): boolean {
+  if (a.courtroomId && b.courtroomId) {
+    return a.courtroomId === b.courtroomId;
+  }
+
+  return a.location.trim().toLowerCase() === b.location.trim().toLowerCase();
+}
+
+// Describe a courtroom as a hearing location
+function formatCourtroomLocation(courtroom: Courtroom): string {
+  return `${courtroom.name}, ${courtroom.building}`;
+}
+
+// Find a courtroom by name within a building, ignoring case
+function findCourtroomByName(
+  name: string,
+  building: string
+): Courtroom | undefined {
+  return courtroomManager
+    .values()
+    .find(
+      (c) =>
+        c.name.toLowerCase() === name.toLowerCase() &&
+        c.building.toLowerCase() === building.toLowerCase()
+    );
+}
+
+// Validate the optional courtroom fields present in a payload
+function validateCourtroomFields(body: unknown): string | null {
+  const fields = isPlainObject(body) ? body : {};
+  const { name, building, capacity, facilities, active } = fields;
+
+  if (
+    (name !== undefined && !isNonEmptyText(name)) ||
+    (building !== undefined && !isNonEmptyText(building))
+  ) {
+    return "Invalid name: Ensure 'name' and 'building' are non-empty strings.";
+  }
+
+  if (
+    capacity !== undefined &&
+    (typeof capacity !== "number" ||
+      !Number.isInteger(capacity) ||
+      capacity <= 0)
+  ) {
+    return "Invalid capacity: Ensure 'capacity' is a positive whole number.";
+  }
+
+  if (
+    facilities !== undefined &&
+    (!Array.isArray(facilities) ||
+      !facilities.every((f: unknown) =>
+        Object.values(CourtroomFacility).includes(f as CourtroomFacility)
+      ))
+  ) {
+    return `Invalid facilities: Ensure 'facilities' only contains ${Object.values(
+      CourtroomFacility
+    ).join(", ")}.`;
+  }
+
+  if (active !== undefined && typeof active !== "boolean") {
+    return "Invalid active flag: Ensure 'active' is a boolean.";
+  }
+
+  return null;
+}
+
+// Get the lawyers assigned to a case
+function getCaseLawyerIds(caseId: string): string[] {
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt || !Array.isArray(caseOpt.Some.lawyerIds)) {
+    return [];
+  }
+
+  return caseOpt.Some.lawyerIds;
+}
+
+// Lawyers and judges may file to cases they take part in; staff to any case
+function canFileToCase(user: UserProfile, caseRecord: Case): boolean {
+  return (
+    user.role === UserRole.CourtStaff || isCaseParticipant(user, caseRecord)
+  );
+}
+
+// Get a filing, making sure it belongs to the given case
+function getCaseFiling(caseId: string, filingId: string): Filing | null {
+  const filingOpt = filingManager.get(filingId);
+  if ("None" in filingOpt || filingOpt.Some.caseId !== caseId) {
+    return null;
+  }
+
+  return filingOpt.Some;
+}
+
+// Build the storage key for a chunk of a filing version
+function getFilingChunkKey(
+  filingId: string,
+  version: number,
+  index: number
+): string {
+  return `${filingId}:${version}:${String(index).padStart(6, "0")}`;
+}
+
+// Check a base64 chunk is well formed and within the size limit
+function validateFilingChunk(data: unknown): string | null {
+  if (typeof data !== "string" || !/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+    return "Invalid chunk: Ensure 'data' is a base64 encoded string.";
+  }
+
+  if (Buffer.from(data, "base64").length > MAX_FILING_CHUNK_BYTES) {
+    return `Chunk too large: Ensure each chunk is at most ${MAX_FILING_CHUNK_BYTES} bytes.`;
+  }
+
+  return null;
+}
+
+// Start a new version of a filing. Inline 'content' is stored and verified
+// straight away; otherwise the version waits for 'chunkCount' chunks.
+// Returns the updated filing or a validation error.
+function startFilingVersion(
+  filing: Filing,
+  body: unknown,
+  uploadedBy: string
+): Filing | string {
+  const fields = isPlainObject(body) ? body : {};
+  const { fileName, mimeType, content, contentHash } = fields;
+  const reason = fields.reason ?? null;
+  if (!isNonEmptyText(fileName) || !isNonEmptyText(mimeType)) {
+    return "Invalid file: Ensure 'fileName' and 'mimeType' are non-empty strings.";
+  }
+
+  if (!isNullableText(reason)) {
+    return "Invalid reason: Ensure 'reason' is a string.";
+  }
+
+  const inline = content !== undefined;
+  const chunkCount = inline ? 1 : fields.chunkCount;
+  if (
+    typeof chunkCount !== "number" ||
+    !Number.isInteger(chunkCount) ||
+    chunkCount < 1 ||
+    chunkCount > MAX_FILING_CHUNK_COUNT
+  ) {
+    return `Invalid chunk count: Provide inline 'content' or a 'chunkCount' between 1 and ${MAX_FILING_CHUNK_COUNT}.`;
+  }
+
+  if (
+    contentHash !== undefined &&
+    (typeof contentHash !== "string" || !/^[0-9a-f]{64}$/i.test(contentHash))
+  ) {
+    return "Invalid content hash: Ensure 'contentHash' is a hex encoded SHA-256 digest.";
+  }
+
+  if (inline) {
+    const chunkError = validateFilingChunk(content);
+    if (chunkError) {
+      return chunkError;
+    }
+  }
+
+  const versions = filing.versions ?? [];
+  const version: FilingVersion = {
+    version: versions.length + 1,
+    fileName: fileName,
+    mimeType: mimeType,
+    chunkCount: chunkCount,
+    size: null,
+    expectedHash:
+      typeof contentHash === "string" ? contentHash.toLowerCase() : null,
+    contentHash: null,
+    amendmentReason: reason,
+    uploadedBy: uploadedBy,
+    uploadedAt: getCurrentDate(),
+    completedAt: null,
+  };
+  const updatedFiling: Filing = {
+    ...filing,
+    versions: [...versions, version],
+    updatedAt: versions.length > 0 ? getCurrentDate() : filing.updatedAt,
+  };
+
+  if (typeof content !== "string") {
+    return updatedFiling;
+  }
+
+  const chunkKey = getFilingChunkKey(filing.id, version.version, 0);
+  filingChunkManager.insert(chunkKey, content);
+
+  const result = completeFilingVersion(updatedFiling, version.version);
+  if (typeof result === "string") {
+    filingChunkManager.remove(chunkKey);
+  }
+
+  return result;
+}
+
+// Hash the uploaded chunks of a version, check them against the declared
+// hash and make the version current. Returns the updated filing or an error.
+function completeFilingVersion(
+  filing: Filing,
+  versionNumber: number
+): Filing | string {
+  const version = filing.versions.find((v) => v.version === versionNumber)!;
+
+  const hasher = sha256.create();
+  let size = 0;
+  for (let index = 0; index < version.chunkCount; index++) {
+    const chunkOpt = filingChunkManager.get(
+      getFilingChunkKey(filing.id, versionNumber, index)
+    );
+    if ("None" in chunkOpt) {
+      return `Missing chunk ${index}: Upload all ${version.chunkCount} chunks before completing.`;
+    }
+
+    const bytes = new Uint8Array(Buffer.from(chunkOpt.Some, "base64"));
+    hasher.update(bytes);
+    size += bytes.length;
+  }
+
+  const contentHash = bytesToHex(hasher.digest());
+  if (version.expectedHash && version.expectedHash !== contentHash) {
+    return `Content hash mismatch: expected ${version.expectedHash} but the uploaded content hashes to ${contentHash}.`;
+  }
+
+  const completedAt = getCurrentDate();
+  return {
+    ...filing,
+    currentVersion: versionNumber,
+    versions: filing.versions.map((v) =>
+      v.version === versionNumber
+        ? {
+            ...v,
+            size: size,
+            contentHash: contentHash,
+            completedAt: completedAt,
+          }
+        : v
+    ),
+    updatedAt: completedAt,
+  };
+}
+
+// Append an entry to the audit log. Keys are zero-padded sequence numbers so
+// the map iterates in the order entries were written.
+function recordAudit(
+  actorId: string | null,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | null,
+  after: object | null,
+  reason: string | null = null
+) {
+  const sequence = Number(auditManager.len());
+  const entry = new AuditEntry(
+    sequence,
+    actorId,
+    action,
+    entityType,
+    entityId,
+    diffRecords(before, after),
+    reason
+  );
+
+  auditManager.insert(sequence.toString().padStart(16, "0"), entry);
+}
+
+// List the fields that differ between two versions of a record
+function diffRecords(
+  before: object | null,
+  after: object | null
+): AuditFieldChange[] {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([
+    ...Object.keys(beforeRecord),
+    ...Object.keys(afterRecord),
+  ]);
+
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    const previous = beforeRecord[field];
+    const next = afterRecord[field];
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      continue;
+    }
+
+    const redacted = AUDIT_REDACTED_FIELDS.includes(field);
+    changes.push({
+      field: field,
+      before:
+        redacted && previous !== undefined ? "[REDACTED]" : (previous ?? null),
+      after: redacted && next !== undefined ? "[REDACTED]" : (next ?? null),
+    });
+  }
+
+  return changes;
+}
+
+// Get the stored case number format, or the default
+function getCaseNumberFormat(): CaseNumberFormat {
+  const formatOpt = caseNumberFormatManager.get("current");
+  return "None" in formatOpt ? DEFAULT_CASE_NUMBER_FORMAT : formatOpt.Some;
+}
+
+// Check a case number format. Patterns may use {court}, {type}, {year} and
+// {seq} or {seq:N} to zero-pad the sequence to N digits; {seq} is required.
+function validateCaseNumberFormat(format: CaseNumberFormat): string | null {
+  if (typeof format.pattern !== "string") {
+    return "Invalid pattern: Ensure 'pattern' is a string.";
+  }
+
+  const tokens = format.pattern.match(/\{[^}]*\}/g) ?? [];
+  const unknownToken = tokens.find(
+    (t) => !/^\{(court|type|year|seq(:([1-9]|10))?)\}$/.test(t)
+  );
+  if (unknownToken) {
+    return `Invalid pattern: Unknown placeholder ${unknownToken}. Use {court}, {type}, {year}, {seq} or {seq:N}.`;
+  }
+
+  if (!tokens.some((t) => t.startsWith("{seq"))) {
+    return "Invalid pattern: Ensure 'pattern' includes {seq}.";
+  }
+
+  if (!isCourtCode(format.defaultCourt)) {
+    return "Invalid court: Ensure 'defaultCourt' is 1 to 16 letters, digits or hyphens.";
+  }
+
+  return null;
+}
+
+// Court codes appear inside case numbers, so keep them to safe characters
+function isCourtCode(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Za-z0-9-]{1,16}$/.test(value);
+}
+
+// Check whether any case already has a number
+function isCaseNumberTaken(caseNumber: string): boolean {
+  const idsOpt = caseNumberIndex.get(caseNumber);
+  return !("None" in idsOpt) && idsOpt.Some.length > 0;
+}
+
+// Fill in a case number pattern
+function formatCaseNumber(
+  pattern: string,
+  court: string,
+  caseType: CaseType,
+  sequence: number,
+  year: number
+): string {
+  return pattern.replace(
+    /\{(court|type|year|seq)(?::(\d+))?\}/g,
+    (_, token, width) => {
+      switch (token) {
+        case "court":
+          return court;
+        case "type":
+          return caseTypeCodes[caseType];
+        case "year":
+          return String(year);
+        default:
+          return String(sequence).padStart(Number(width ?? 0), "0");
+      }
+    }
+  );
+}
+
+// Take the next number in the court/type/year sequence. Numbers already in
+// use (for example after the pattern changed) are skipped.
+function generateCaseNumber(
+  court: string,
+  caseType: CaseType,
+  date: Date
+): string {
+  const year = date.getUTCFullYear();
+  const counterKey = `${court}:${caseType}:${year}`;
+  const counterOpt = caseNumberSequenceManager.get(counterKey);
+  const pattern = getCaseNumberFormat().pattern;
+
+  let sequence = "None" in counterOpt ? 0 : counterOpt.Some;
+  let caseNumber: string;
+  do {
+    sequence++;
+    caseNumber = formatCaseNumber(pattern, court, caseType, sequence, year);
+  } while (isCaseNumberTaken(caseNumber));
+
+  caseNumberSequenceManager.insert(counterKey, sequence);
+  return caseNumber;
+}
+
+// Find the unavailability period covering a date, if any
+function findJudgeUnavailability(
+  judgeId: string,
+  date: Date
+): JudgeUnavailability | null {
+  const periodsOpt = judgeUnavailabilityManager.get(judgeId);
+  if ("None" in periodsOpt) {
+    return null;
+  }
+
+  return (
+    periodsOpt.Some.find(
+      (p) => new Date(p.from) <= date && new Date(p.to) > date
+    ) ?? null
+  );
+}
+
+// Describe a judge's open caseload, raw and weighted by case type
+function getJudgeCandidate(judge: UserProfile): JudgeCandidate {
+  const openCases = getIndexedRecords(
+    judgeCaseIndex,
+    judge.id,
+    caseManager
+  ).filter((c) => !isCaseClosed(c));
+
+  return {
+    judgeId: judge.id,
+    username: judge.username,
+    openCases: openCases.length,
+    weightedCaseload: openCases.reduce(
+      (total, c) => total + (caseTypeWeights[c.caseType] ?? 1),
+      0
+    ),
+  };
+}
+
+// Find the deactivated accounts among users about to be assigned
+function findDeactivatedUserIds(
+  userIds: (string | null | undefined)[]
+): string[] {
+  return userIds.filter((id): id is string => {
+    if (!id) {
+      return false;
+    }
+
+    const userOpt = userManager.get(id);
+    return !("None" in userOpt) && !userOpt.Some.active;
+  });
+}
+
+// Reject an assignment to deactivated users
+function usersDeactivated(res: express.Response, userIds: string[]) {
+  return res.status(400).json(deactivatedUsersError(userIds));
+}
+
+function deactivatedUsersError(userIds: string[]): ValidationError {
+  return {
+    status: 400,
+    error: "User deactivated",
+    details: `Deactivated users cannot be assigned: ${userIds.join(", ")}`,
+  };
+}
+
+// Work out how a user's open cases and active hearings move to their
+// replacements. Each case takes its replacement from 'reassignments', then
+// 'reassignTo'. A replacement must be an active user with the role the
+// assignment needs, and a judge must not have recused themselves.
+function planReassignments(
+  user: UserProfile,
+  reassignTo: string | null,
+  reassignments: Record<string, string>
+): ReassignmentPlan | ValidationError {
+  const openCases = new Map(
+    [
+      ...getIndexedRecords(judgeCaseIndex, user.id, caseManager),
+      ...getIndexedRecords(lawyerCaseIndex, user.id, caseManager),
+    ]
+      .filter((c) => !isCaseClosed(c))
+      .map((c) => [c.id, c])
+  );
+  const hearings = getIndexedRecords(
+    judgeHearingIndex,
+    user.id,
+    hearingManager
+  ).filter(isHearingActive);
+
+  const replacementFor = (caseId: string) =>
+    reassignments[caseId] ?? reassignTo;
+  const unplanned = [
+    ...new Set([...openCases.keys(), ...hearings.map((h) => h.caseId)]),
+  ].filter((caseId) => !replacementFor(caseId));
+  if (unplanned.length > 0) {
+    return {
+      status: 409,
+      error: "User has active assignments",
+      details: `Send 'reassignTo' or 'reassignments' to hand over these cases first: ${unplanned.join(", ")}`,
+    };
+  }
+
+  // Check each replacement against the role it takes over
+  const slots = [
+    ...[...openCases.values()].map((c) => ({
+      caseRecord: c as Case | null,
+      caseId: c.id,
+      role: c.judgeId === user.id ? UserRole.Judge : UserRole.Lawyer,
+    })),
+    ...hearings.map((h) => ({
+      caseRecord: openCases.get(h.caseId) ?? null,
+      caseId: h.caseId,
+      role: UserRole.Judge,
+    })),
+  ];
+  for (const slot of slots) {
+    const replacementId = replacementFor(slot.caseId)!;
+    const replacementOpt = userManager.get(replacementId);
+    if (
+      replacementId === user.id ||
+      "None" in replacementOpt ||
+      !replacementOpt.Some.active ||
+      replacementOpt.Some.role !== slot.role
+    ) {
+      return {
+        status: 400,
+        error: "Invalid replacement",
+        details: `User ${replacementId} cannot take over case ${slot.caseId}: the replacement must be another active ${slot.role}`,
+      };
+    }
+
+    if (
+      slot.role === UserRole.Judge &&
+      slot.caseRecord &&
+      getRecusedJudgeIds(slot.caseRecord).includes(replacementId)
+    ) {
+      return {
+        status: 400,
+        error: "Judge recused",
+        details: `Judge ${replacementId} has recused themselves from case ${slot.caseId}`,
+      };
+    }
+  }
+
+  const now = getCurrentDate();
+  const replaceUser = (ids: string[], replacementId: string) => [
+    ...new Set(ids.map((id) => (id === user.id ? replacementId : id))),
+  ];
+  return {
+    cases: [...openCases.values()].map((before) => {
+      const replacementId = replacementFor(before.id)!;
+      const wasLawyer = before.lawyerIds.includes(user.id);
+      return {
+        before: before,
+        after: {
+          ...before,
+          judgeId: before.judgeId === user.id ? replacementId : before.judgeId,
+          lawyerIds: replaceUser(before.lawyerIds, replacementId),
+          formerLawyerIds: wasLawyer
+            ? [...new Set([...before.formerLawyerIds, user.id])]
+            : before.formerLawyerIds,
+          parties: before.parties.map((party) => ({
+            ...party,
+            lawyerIds: replaceUser(party.lawyerIds, replacementId),
+          })),
+          updatedAt: now,
+        },
+      };
+    }),
+    hearings: hearings.map((before) => ({
+      before: before,
+      after: {
+        ...before,
+        judgeId: replacementFor(before.caseId)!,
+        updatedAt: now,
+      },
+    })),
+  };
+}
+
+// Choose a judge for a case with the given strategy. The judge currently on
+// the case, judges who recused themselves, judges with a conflict of interest
+// and judges unavailable today are skipped, and the choice is explained in
+// 'reason' for the audit trail. Round-robin picks advance the stored
+// rotation, so only call this when the judge will be assigned.
+function pickJudge(
+  strategy: JudgeAssignmentStrategy,
+  caseRecord: Case
+): JudgeAssignment | string {
+  const recusedJudgeIds = getRecusedJudgeIds(caseRecord);
+  const now = getCurrentDate();
+  const skipped: { judgeId: string; reason: string }[] = [];
+  const candidates: JudgeCandidate[] = [];
+
+  const judges = userManager
+    .values()
+    .filter((u) => u.role === UserRole.Judge && u.active)
+    .sort((a, b) => compareValues(a.id, b.id));
+  for (const judge of judges) {
+    if (judge.id === caseRecord.judgeId) {
+      skipped.push({ judgeId: judge.id, reason: "currently assigned" });
+      continue;
+    }
+
+    if (recusedJudgeIds.includes(judge.id)) {
+      skipped.push({ judgeId: judge.id, reason: "recused from this case" });
+      continue;
+    }
+
+    const conflicts = findJudgeConflicts(judge.id, caseRecord);
+    if (conflicts.length > 0) {
+      skipped.push({
+        judgeId: judge.id,
+        reason: `conflict of interest: ${conflicts
+          .map((c) => c.details)
+          .join("; ")}`,
+      });
+      continue;
+    }
+
+    const unavailability = findJudgeUnavailability(judge.id, now);
+    if (unavailability) {
+      skipped.push({
+        judgeId: judge.id,
+        reason: `unavailable until ${new Date(
+          unavailability.to
+        ).toISOString()} (${unavailability.reason})`,
+      });
+      continue;
+    }
+
+    candidates.push(getJudgeCandidate(judge));
+  }
+
+  if (candidates.length === 0) {
+    return "No eligible judge: every judge is recused, conflicted or unavailable.";
+  }
+
+  let chosen: JudgeCandidate;
+  let reason: string;
+  if (strategy === JudgeAssignmentStrategy.RoundRobin) {
+    const lastOpt = judgeAssignmentState.get("roundRobinLastJudgeId");
+    const lastJudgeId = "None" in lastOpt ? null : lastOpt.Some;
+    chosen =
+      candidates.find(
+        (c) => lastJudgeId === null || compareValues(c.judgeId, lastJudgeId) > 0
+      ) ?? candidates[0];
+    judgeAssignmentState.insert("roundRobinLastJudgeId", chosen.judgeId);
+    reason = `Round-robin: next judge after ${lastJudgeId ?? "the start of the rotation"}`;
+  } else {
+    const field =
+      strategy === JudgeAssignmentStrategy.WeightedCaseload
+        ? "weightedCaseload"
+        : "openCases";
+    chosen = candidates.reduce((best, c) =>
+      c[field] < best[field] ? c : best
+    );
+    reason = `${strategy}: lowest ${
+      field === "openCases" ? "open caseload" : "caseload weighted by case type"
+    } (${chosen[field]}) among ${candidates.length} eligible judge(s)`;
+  }
+
+  if (skipped.length > 0) {
+    reason += `; skipped ${skipped
+      .map((s) => `${s.judgeId} (${s.reason})`)
+      .join(", ")}`;
+  }
+
+  return {
+    strategy: strategy,
+    judgeId: chosen.judgeId,
+    reason: `Assigned ${chosen.username}. ${reason}`,
+    candidates: candidates,
+    skipped: skipped,
+  };
+}
+
+// Summarise a case's links. Cases the user cannot see are listed by ID only.
+function describeCaseLinks(user: UserProfile, caseRecord: Case) {
+  return (caseRecord.links ?? []).map((link) => {
+    const linkedCaseOpt = caseManager.get(link.linkedCaseId);
+    const linkedCase =
+      "None" in linkedCaseOpt || !canViewCase(user, linkedCaseOpt.Some)
+        ? null
+        : linkedCaseOpt.Some;
+
+    return {
+      linkId: link.id,
+      type: link.type,
+      caseId: link.linkedCaseId,
+      caseNumber: linkedCase?.caseNumber ?? null,
+      title: linkedCase?.title ?? null,
+      status: linkedCase?.status ?? null,
+    };
+  });
+}
+
+// Member cases consolidated with a lead case
+function getConsolidatedCaseIds(caseRecord: Case): string[] {
+  return (caseRecord.links ?? [])
+    .filter((l) => l.type === CaseLinkType.ConsolidatedWith)
+    .map((l) => l.linkedCaseId);
+}
+
+// Judges who have recused themselves from a case
+function getRecusedJudgeIds(caseRecord: Case): string[] {
+  return (caseRecord.recusals ?? []).map((r) => r.judgeId);
+}
+
+// Check whether a declared relationship points at a party
+function isRelatedToParty(
+  relationship: DeclaredRelationship,
+  party: CaseParty
+): boolean {
+  if (relationship.litigantId && relationship.litigantId === party.litigantId) {
+    return true;
+  }
+
+  return (
+    !!relationship.partyName &&
+    relationship.partyName.trim().toLowerCase() ===
+      party.name.trim().toLowerCase()
+  );
+}
+
+// Check whether two parties on different cases are the same person, matched
+// by linked litigant account or by name
+function isSameParty(party: CaseParty, other: CaseParty): boolean {
+  if (party.litigantId && other.litigantId) {
+    return party.litigantId === other.litigantId;
+  }
+
+  return party.name.trim().toLowerCase() === other.name.trim().toLowerCase();
+}
+
+// Defendants and respondents both answer the claim, so they share a side
+function getLitigationSide(side: PartySide): PartySide {
+  return side === PartySide.Respondent ? PartySide.Defendant : side;
+}
+
+// Find every conflict of interest among the judge, lawyers and parties of a
+// case: lawyers representing parties on opposing sides, a judge who has been
+// counsel on the case or on another case of one of its parties, and declared
+// relationships with a party
+function findConflictsOfInterest(caseRecord: Case): ConflictOfInterest[] {
+  const conflicts: ConflictOfInterest[] = [];
+  const parties = caseRecord.parties ?? [];
+
+  for (const lawyerId of caseRecord.lawyerIds ?? []) {
+    const sides = [
+      ...new Set(
+        parties
+          .filter((p) => p.lawyerIds.includes(lawyerId))
+          .map((p) => getLitigationSide(p.side))
+      ),
+    ];
+    if (sides.length > 1) {
+      conflicts.push({
+        type: ConflictOfInterestType.OpposingSides,
+        userId: lawyerId,
+        details: `Lawyer ${lawyerId} represents parties on opposing sides (${sides.join(
+          ", "
+        )})`,
+      });
+    }
+  }
+
+  const judgeId = caseRecord.judgeId;
+  if (
+    judgeId &&
+    [
+      ...(caseRecord.lawyerIds ?? []),
+      ...(caseRecord.formerLawyerIds ?? []),
+    ].includes(judgeId)
+  ) {
+    conflicts.push({
+      type: ConflictOfInterestType.FormerCounsel,
+      userId: judgeId,
+      details: `Judge ${judgeId} has been counsel on this case`,
+    });
+  }
+
+  if (judgeId && parties.length > 0) {
+    for (const otherCase of caseManager.values()) {
+      if (
+        otherCase.id === caseRecord.id ||
+        ![
+          ...(otherCase.lawyerIds ?? []),
+          ...(otherCase.formerLawyerIds ?? []),
+        ].includes(judgeId)
+      ) {
+        continue;
+      }
+
+      const sharedParty = parties.find((p) =>
+        (otherCase.parties ?? []).some((o) => isSameParty(p, o))
+      );
+      if (sharedParty) {
+        conflicts.push({
+          type: ConflictOfInterestType.FormerCounsel,
+          userId: judgeId,
+          details: `Judge ${judgeId} has been counsel on case ${otherCase.caseNumber}, which involves party ${sharedParty.name}`,
+        });
+      }
+    }
+  }
+
+  for (const userId of [judgeId, ...(caseRecord.lawyerIds ?? [])]) {
+    if (!userId) {
+      continue;
+    }
+
+    const relationshipsOpt = declaredRelationshipManager.get(userId);
+    const relationships =
+      "None" in relationshipsOpt ? [] : relationshipsOpt.Some;
+    for (const relationship of relationships) {
+      for (const party of parties.filter((p) =>
+        isRelatedToParty(relationship, p)
+      )) {
+        conflicts.push({
+          type: ConflictOfInterestType.DeclaredRelationship,
+          userId: userId,
+          details: `User ${userId} declared a relationship (${relationship.relationship}) with party ${party.name}`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+// Conflicts a change to a case introduces; conflicts already accepted
+// before the change are not reported again
+function findNewConflictsOfInterest(
+  previous: Case | null,
+  next: Case
+): ConflictOfInterest[] {
+  const existing = new Set(
+    previous ? findConflictsOfInterest(previous).map((c) => c.details) : []
+  );
+
+  return findConflictsOfInterest(next).filter((c) => !existing.has(c.details));
+}
+
+// Conflicts a judge would have if assigned to a case
+function findJudgeConflicts(
+  judgeId: string,
+  caseRecord: Case
+): ConflictOfInterest[] {
+  return findConflictsOfInterest({ ...caseRecord, judgeId: judgeId }).filter(
+    (c) => c.userId === judgeId
+  );
+}
+
+// Check that a value is a known case status
+function isCaseStatus(value: unknown): value is CaseStatus {
+  return Object.values(CaseStatus).includes(value as CaseStatus);
+}
+
+function isCaseType(value: unknown): value is CaseType {
+  return Object.values(CaseType).includes(value as CaseType);
+}
+
+function isCaseLinkType(value: unknown): value is CaseLinkType {
+  return Object.values(CaseLinkType).includes(value as CaseLinkType);
+}
+
+function isPartySide(value: unknown): value is PartySide {
+  return Object.values(PartySide).includes(value as PartySide);
+}
+
+function isHearingStatus(value: unknown): value is HearingStatus {
+  return Object.values(HearingStatus).includes(value as HearingStatus);
+}
+
+function isUserRole(value: unknown): value is UserRole {
+  return Object.values(UserRole).includes(value as UserRole);
+}
+
+function isReportName(value: unknown): value is ReportName {
+  return Object.values(ReportName).includes(value as ReportName);
+}
+
+// Check that a payload is a JSON object
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyText(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isNullableText(value: unknown): value is string | null {
+  return value === null || typeof value === "string";
+}
+
+// Check whether a case has been disposed of
+function isCaseClosed(caseRecord: Case): boolean {
+  return closedCaseStatuses.includes(caseRecord.status);
+}
+
+// Check the transition table; records written before statuses were typed
+// may hold an unknown status, which can move to any valid one
+function canTransitionCaseStatus(from: string, to: CaseStatus): boolean {
+  if (!isCaseStatus(from)) {
+    return true;
+  }
+
+  return caseStatusTransitions[from].includes(to);
+}
+
+// Move a case to a new status and record the change in its history
+function applyCaseStatusChange(
+  caseRecord: Case,
+  to: CaseStatus,
+  changedBy: string,
+  reason: string | null = null
+): Case {
+  const changedAt = getCurrentDate();
+
+  return {
+    ...caseRecord,
+    status: to,
+    statusHistory: [
+      ...(caseRecord.statusHistory ?? []),
+      {
+        from: isCaseStatus(caseRecord.status) ? caseRecord.status : null,
+        to: to,
+        changedBy: changedBy,
+        changedAt: changedAt,
+        reason: reason ?? null,
+      },
+    ],
+    updatedAt: changedAt,
+  };
+}
+
+// Check the fields of a deadline rule payload. Returns an error message, or
+// null when every provided field is valid.
+function validateDeadlineRuleFields(body: unknown): string | null {
+  const fields = isPlainObject(body) ? body : {};
+  const { name, description, trigger, days, dayCount, active } = fields;
+
+  if (name !== undefined && !isNonEmptyText(name)) {
+    return "Invalid name: Ensure 'name' is a non-empty string.";
+  }
+
+  if (description !== undefined && typeof description !== "string") {
+    return "Invalid description: Ensure 'description' is a string.";
+  }
+
+  if (
+    trigger !== undefined &&
+    !Object.values(DeadlineTrigger).includes(trigger as DeadlineTrigger)
+  ) {
+    return `Invalid trigger: Ensure 'trigger' is one of ${Object.values(
+      DeadlineTrigger
+    ).join(", ")}.`;
+  }
+
+  if (
+    days !== undefined &&
+    (typeof days !== "number" ||
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > MAX_DEADLINE_DAYS)
+  ) {
+    return `Invalid days: Ensure 'days' is a whole number between 1 and ${MAX_DEADLINE_DAYS}.`;
+  }
+
+  if (
+    dayCount !== undefined &&
+    !Object.values(DeadlineDayCount).includes(dayCount as DeadlineDayCount)
+  ) {
+    return `Invalid day count: Ensure 'dayCount' is one of ${Object.values(
+      DeadlineDayCount
+    ).join(", ")}.`;
+  }
+
+  if (active !== undefined && typeof active !== "boolean") {
+    return "Invalid active flag: Ensure 'active' is true or false.";
+  }
+
+  return null;
+}
+
+// Check a rule's trigger value against the values its trigger can match.
+// A null value matches every event of that kind.
+function validateDeadlineTriggerValue(
+  trigger: DeadlineTrigger,
+  value: string | null
+): string | null {
+  const allowedValues: Partial<Record<DeadlineTrigger, string[]>> = {
+    [DeadlineTrigger.StatusChanged]: Object.values(CaseStatus),
+    [DeadlineTrigger.OrderIssued]: Object.values(OrderType),
+    [DeadlineTrigger.DocumentFiled]: Object.values(FilingType),
+  };
+
+  const allowed = allowedValues[trigger];
+  if (value === null) {
+    return null;
+  }
+
+  if (!allowed) {
+    return `Invalid trigger value: ${trigger} rules do not take a 'triggerValue'.`;
+  }
+
+  if (!allowed.includes(value)) {
+    return `Invalid trigger value: Ensure 'triggerValue' is one of ${allowed.join(
+      ", "
+    )}.`;
+  }
+
+  return null;
+}
+
+// Check that a value is a YYYY-MM-DD calendar date
+function isCalendarDay(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && formatCalendarDay(date) === value;
+}
+
+// Format a date as its UTC calendar day
+function formatCalendarDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Courts sit Monday to Friday except on court holidays
+function isCourtDay(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    return false;
+  }
+
+  return !courtHolidayManager.containsKey(formatCalendarDay(date));
+}
+
+// Work out when a deadline falls due. Deadlines run to the end of the day
+// they fall on.
+function computeDeadlineDate(
+  from: Date,
+  days: number,
+  dayCount: DeadlineDayCount
+): Date {
+  let day = new Date(from);
+  day.setUTCHours(0, 0, 0, 0);
+
+  if (dayCount === DeadlineDayCount.CourtDays) {
+    let remaining = days;
+    while (remaining > 0) {
+      day = new Date(day.getTime() + DAY_MS);
+      if (isCourtDay(day)) {
+        remaining--;
+      }
+    }
+  } else {
+    day = new Date(day.getTime() + days * DAY_MS);
+    while (!isCourtDay(day)) {
+      day = new Date(day.getTime() + DAY_MS);
+    }
+  }
+
+  return new Date(day.getTime() + DAY_MS - 1);
+}
+
+// Get the deadlines computed for a case, earliest first
+function getCaseDeadlines(caseId: string): CaseDeadline[] {
+  const deadlinesOpt = caseDeadlineManager.get(caseId);
+  if ("None" in deadlinesOpt) {
+    return [];
+  }
+
+  return [...deadlinesOpt.Some].sort(
+    (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+  );
+}
+
+// Run the active deadline rules matching a case event and store the
+// deadlines they produce. Returns the new deadlines.
+function triggerCaseDeadlines(
+  caseId: string,
+  trigger: DeadlineTrigger,
+  value: string | null,
+  occurredAt: Date,
+  actorId: string | null
+): CaseDeadline[] {
+  const rules = deadlineRuleManager
+    .values()
+    .filter(
+      (r) =>
+        r.active &&
+        r.trigger === trigger &&
+        (r.triggerValue === null || r.triggerValue === value)
+    );
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const deadlines = rules.map(
+    (r) =>
+      new CaseDeadline(
+        caseId,
+        r,
+        occurredAt,
+        computeDeadlineDate(occurredAt, r.days, r.dayCount)
+      )
+  );
+
+  const existingOpt = caseDeadlineManager.get(caseId);
+  caseDeadlineManager.insert(caseId, [
+    ...("None" in existingOpt ? [] : existingOpt.Some),
+    ...deadlines,
+  ]);
+  for (const deadline of deadlines) {
+    recordAudit(
+      actorId,
+      AuditAction.Create,
+      AuditEntityType.Deadline,
+      deadline.id,
+      null,
+      deadline
+    );
+  }
+
+  return deadlines;
+}
+
+// Check the fee rule fields that were sent
+function validateFeeRuleFields(body: unknown): string | null {
+  const fields = isPlainObject(body) ? body : {};
+  const { name, description, kind, trigger, amount, requiredFor, active } =
+    fields;
+
+  if (name !== undefined && !isNonEmptyText(name)) {
+    return "Invalid name: Ensure 'name' is a non-empty string.";
+  }
+
+  if (description !== undefined && !isNonEmptyText(description)) {
+    return "Invalid description: Ensure 'description' is a non-empty string.";
+  }
+
+  if (
+    kind !== undefined &&
+    !Object.values(ChargeKind).includes(kind as ChargeKind)
+  ) {
+    return `Invalid kind: Ensure 'kind' is one of ${Object.values(
+      ChargeKind
+    ).join(", ")}.`;
+  }
+
+  if (
+    trigger !== undefined &&
+    !Object.values(FeeTrigger).includes(trigger as FeeTrigger)
+  ) {
+    return `Invalid trigger: Ensure 'trigger' is one of ${Object.values(
+      FeeTrigger
+    ).join(", ")}.`;
+  }
+
+  if (amount !== undefined && !isChargeAmount(amount)) {
+    return "Invalid amount: Ensure 'amount' is a positive whole number in the smallest currency unit.";
+  }
+
+  if (requiredFor !== undefined && !isFeeGatedActionList(requiredFor)) {
+    return `Invalid actions: Ensure 'requiredFor' is a list of ${Object.values(
+      FeeGatedAction
+    ).join(", ")}.`;
+  }
+
+  if (active !== undefined && typeof active !== "boolean") {
+    return "Invalid active flag: Ensure 'active' is true or false.";
+  }
+
+  return null;
+}
+
+//  Check that a rule's 'appliesTo' is a case type for CaseFiled rules or a
+// filing type for DocumentFiled rules. Null matches every one.
+function validateFeeAppliesTo(
+  trigger: FeeTrigger,
+  appliesTo: string | null
+): string | null {
+  if (appliesTo === null) {
+    return null;
+  }
+
+  const allowed: string[] =
+    trigger === FeeTrigger.CaseFiled
+      ? Object.values(CaseType)
+      : Object.values(FilingType);
+  if (!allowed.includes(appliesTo)) {
+    return `Invalid appliesTo: Ensure 'appliesTo' is one of ${allowed.join(
+      ", "
+    )}.`;
+  }
+
+  return null;
+}
+
+function isChargeAmount(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) > 0;
+}
+
+function isFeeGatedActionList(value: unknown): value is FeeGatedAction[] {
+  return (
+    Array.isArray(value) &&
+    value.every((action) => Object.values(FeeGatedAction).includes(action))
+  );
+}
+
+function getCaseCharges(caseId: string): CaseCharge[] {
+  const chargesOpt = caseChargeManager.get(caseId);
+  return "None" in chargesOpt ? [] : chargesOpt.Some;
+}
+
+// Replace one charge in a case's ledger
+function saveCaseCharge(charge: CaseCharge) {
+  caseChargeManager.insert(
+    charge.caseId,
+    getCaseCharges(charge.caseId).map((c) => (c.id === charge.id ? charge : c))
+  );
+}
+
+// What is left to pay on a charge; nothing once it has been waived
+function getChargeBalance(charge: CaseCharge): number {
+  if (charge.waiver) {
+    return 0;
+  }
+
+  return (
+    charge.amount -
+    charge.payments.reduce((total, payment) => total + payment.amount, 0)
+  );
+}
+
+// Unpaid charges on a case that hold up an action
+function findUnpaidCharges(
+  caseId: string,
+  action: FeeGatedAction
+): CaseCharge[] {
+  return getCaseCharges(caseId).filter(
+    (c) => c.requiredFor.includes(action) && getChargeBalance(c) > 0
+  );
+}
+
+// Reject an action held up by unpaid charges
+function feesOutstanding(res: express.Response, charges: CaseCharge[]) {
+  return res.status(402).json(unpaidFeesError(charges));
+}
+
+function unpaidFeesError(charges: CaseCharge[]): ValidationError {
+  return {
+    status: 402,
+    error: "Fees outstanding",
+    details:
+      "Pay the listed charges, or have court staff waive them, before doing this",
+    charges: charges.map((c) => ({
+      id: c.id,
+      caseId: c.caseId,
+      kind: c.kind,
+      description: c.description,
+      balance: getChargeBalance(c),
+    })),
+  };
+}
+
+// Summarise a case's ledger: every charge with its balance, the totals and
+// the actions unpaid charges are holding up
+function describeCaseLedger(caseId: string) {
+  const charges = getCaseCharges(caseId).map((c) => ({
+    ...c,
+    paid: c.payments.reduce((total, payment) => total + payment.amount, 0),
+    balance: getChargeBalance(c),
+  }));
+  const sum = (values: number[]) =>
+    values.reduce((total, value) => total + value, 0);
+
+  return {
+    charges: charges,
+    totals: {
+      charged: sum(charges.map((c) => c.amount)),
+      paid: sum(charges.map((c) => c.paid)),
+      waived: sum(charges.map((c) => (c.waiver ? c.amount - c.paid : 0))),
+      outstanding: sum(charges.map((c) => c.balance)),
+    },
+    blockedActions: Object.values(FeeGatedAction).filter((action) =>
+      charges.some((c) => c.balance > 0 && c.requiredFor.includes(action))
+    ),
+  };
+}
+
+// Charge the fees whose rules match an event on a case. Returns the new
+// charges.
+function raiseCaseFees(
+  caseId: string,
+  trigger: FeeTrigger,
+  value: string,
+  filingId: string | null,
+  actorId: string | null
+): CaseCharge[] {
+  const rules = feeRuleManager
+    .values()
+    .filter(
+      (r) =>
+        r.active &&
+        r.trigger === trigger &&
+        (r.appliesTo === null || r.appliesTo === value)
+    );
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const charges = rules.map(
+    (r) =>
+      new CaseCharge(
+        caseId,
+        r.kind,
+        r.name,
+        r.amount,
+        r.requiredFor,
+        actorId,
+        r.id,
+        filingId
+      )
+  );
+
+  caseChargeManager.insert(caseId, [...getCaseCharges(caseId), ...charges]);
+  for (const charge of charges) {
+    recordAudit(
+      actorId,
+      AuditAction.Create,
+      AuditEntityType.Charge,
+      charge.id,
+      null,
+      charge
+    );
+  }
+
+  return charges;
+}
+
+// Everyone taking part in a case: its judge, lawyers and litigant parties
+function getCaseParticipantIds(caseRecord: Case): string[] {
+  return [
+    caseRecord.judgeId,
+    ...(caseRecord.lawyerIds ?? []),
+    ...(caseRecord.parties ?? []).map((p) => p.litigantId),
+  ].filter((id): id is string => !!id);
+}
+
+// Get a user's notification preferences with every event filled in
+function getNotificationPreferences(
+  userId: string
+): Record<NotificationEvent, boolean> {
+  const preferencesOpt = notificationPreferenceManager.get(userId);
+  const stored = "None" in preferencesOpt ? {} : preferencesOpt.Some;
+
+  return Object.fromEntries(
+    Object.values(NotificationEvent).map((event) => [
+      event,
+      stored[event] ?? true,
+    ])
+  ) as Record<NotificationEvent, boolean>;
+}
+
+// Deliver a notification to each user who has the event switched on. The
+// user who caused the event is not told about it.
+function notifyUsers(
+  userIds: (string | null | undefined)[],
+  event: NotificationEvent,
+  caseId: string,
+  hearingId: string | null,
+  message: string,
+  actorId: string | null
+) {
+  for (const userId of new Set(userIds)) {
+    if (
+      !userId ||
+      userId === actorId ||
+      !userManager.containsKey(userId) ||
+      !getNotificationPreferences(userId)[event]
+    ) {
+      continue;
+    }
+
+    const inboxOpt = notificationManager.get(userId);
+    const inbox = "None" in inboxOpt ? [] : inboxOpt.Some;
+    notificationManager.insert(
+      userId,
+      [
+        ...inbox,
+        new Notification(userId, event, caseId, hearingId, message),
+      ].slice(-MAX_NOTIFICATIONS_PER_USER)
+    );
+  }
+}
+
+// Notify everyone taking part in a case
+function notifyCaseParticipants(
+  caseId: string,
+  event: NotificationEvent,
+  hearingId: string | null,
+  message: string,
+  actorId: string | null
+) {
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt) {
+    return;
+  }
+
+  notifyUsers(
+    getCaseParticipantIds(caseOpt.Some),
+    event,
+    caseId,
+    hearingId,
+    message,
+    actorId
+  );
+}
+
+// Split an import payload into rows. CSV cells are strings: empty cells are
+// left out, 'lawyerIds' are separated by semicolons and 'durationMinutes' is
+// read as a number. Rows are numbered from 1, after any CSV header.
+function parseImportRows(
+  format: ImportFormat,
+  entity: ImportEntity | undefined,
+  data: string
+): ImportRow[] {
+  if (format === ImportFormat.Ndjson) {
+    return data
+      .split(/\r?\n/)
+      .map((line, index) => ({ line, row: index + 1 }))
+      .filter(({ line }) => line.trim() !== "")
+      .map(({ line, row }) => {
+        try {
+          const record = JSON.parse(line);
+          if (typeof record !== "object" || record === null) {
+            return { row, record: null, error: "Line is not a JSON object" };
+          }
+          return { row, record, error: null };
+        } catch {
+          return { row, record: null, error: "Line is not valid JSON" };
+        }
+      });
+  }
+
+  const [header, ...lines] = parseCsv(data);
+  return lines
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .filter(({ cells }) => cells.some((c) => c.trim() !== ""))
+    .map(({ cells, row }) => {
+      const record: Record<string, unknown> = { entity: entity };
+      (header ?? []).forEach((column, i) => {
+        const value = cells[i]?.trim();
+        if (!value) {
+          return;
+        }
+
+        const field = column.trim();
+        if (field === "lawyerIds") {
+          record[field] = value.split(";").map((id) => id.trim());
+        } else if (field === "durationMinutes") {
+          record[field] = Number(value);
+        } else {
+          record[field] = value;
+        }
+      });
+      return { row, record, error: null };
+    });
+}
+
+// Parse RFC 4180 CSV: quoted fields may hold commas, newlines and doubled
+// quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Validate one import row and, unless this is a dry run, save it
+function importRow(
+  row: ImportRow,
+  batch: ImportBatch,
+  dryRun: boolean,
+  actorId: string
+): ImportRowResult {
+  const entity =
+    typeof row.record?.entity === "string" ? row.record.entity : null;
+  const fail = (error: ValidationError): ImportRowResult => ({
+    row: row.row,
+    entity: entity,
+    status: "error",
+    id: typeof row.record?.id === "string" ? row.record.id : null,
+    error: error.error,
+    ...(error.details ? { details: error.details } : {}),
+  });
+
+  if (!row.record) {
+    return fail({ status: 400, error: row.error ?? "Unreadable row" });
+  }
+
+  let result: { id: string } | ValidationError;
+  switch (entity) {
+    case ImportEntity.User:
+      result = importUser(row.record, batch, dryRun, actorId);
+      break;
+    case ImportEntity.Case:
+      result = importCase(row.record, batch, dryRun, actorId);
+      break;
+    case ImportEntity.Hearing:
+      result = importHearing(row.record, batch, dryRun, actorId);
+      break;
+    default:
+      result = {
+        status: 400,
+        error: `Invalid entity: Ensure 'entity' is one of ${Object.values(
+          ImportEntity
+        ).join(", ")}.`,
+      };
+  }
+
+  if ("error" in result) {
+    return fail(result);
+  }
+
+  return {
+    row: row.row,
+    entity: entity,
+    status: dryRun ? "valid" : "created",
+    id: result.id,
+  };
+}
+
+// Check the ID and timestamps carried over from an exported record.
+// Records without an ID get a new one.
+function readSnapshotFields(
+  record: Record<string, unknown>,
+  isIdTaken: (id: string) => boolean
+): { id?: string; createdAt?: Date; updatedAt?: Date } | ValidationError {
+  const id = record.id;
+  if (id !== undefined) {
+    if (typeof id !== "string" || !id) {
+      return {
+        status: 400,
+        error: "Invalid ID: Ensure 'id' is a non-empty string.",
+      };
+    }
+
+    if (isIdTaken(id)) {
+      return {
+        status: 409,
+        error: "Record already exists",
+        details: `A record with id ${id} already exists`,
+      };
+    }
+  }
+
+  const createdAt =
+    record.createdAt === undefined ? undefined : readDate(record.createdAt);
+  const updatedAt =
+    record.updatedAt === undefined ? undefined : readDate(record.updatedAt);
+  if (createdAt === null || updatedAt === null) {
+    return {
+      status: 400,
+      error:
+        "Invalid date: Ensure 'createdAt' and 'updatedAt' are valid ISO 8601 dates.",
+    };
+  }
+
+  return {
+    ...(typeof id === "string" ? { id } : {}),
+    ...(createdAt ? { createdAt } : {}),
+    ...(updatedAt ? { updatedAt } : {}),
+  };
+}
+
+// Import one user row
+function importUser(
+  record: Record<string, unknown>,
+  batch: ImportBatch,
+  dryRun: boolean,
+  actorId: string
+): UserProfile | ValidationError {
+  const fields = validateNewUser(record, batch, true);
+  if ("error" in fields) {
+    return fields;
+  }
+
+  const snapshot = readSnapshotFields(
+    record,
+    (id) => userManager.containsKey(id) || batch.users.has(id)
+  );
+  if ("error" in snapshot) {
+    return snapshot;
+  }
+
+  const deactivatedAt =
+    record.deactivatedAt === undefined || record.deactivatedAt === null
+      ? undefined
+      : readDate(record.deactivatedAt);
+  if (
+    (record.active !== undefined && typeof record.active !== "boolean") ||
+    deactivatedAt === null
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid deactivation: Ensure 'active' is a boolean and 'deactivatedAt' a valid ISO 8601 date.",
+    };
+  }
+
+  // Hashing is slow, so dry runs skip it
+  const password = fields.passwordIsHash
+    ? fields.password
+    : dryRun
+      ? ""
+      : hashPassword(fields.password);
+  const user: UserProfile = {
+    ...new UserProfile(fields.username, fields.email, password, fields.role),
+    ...snapshot,
+  };
+  if (record.active === false) {
+    user.active = false;
+    user.deactivatedAt = deactivatedAt ?? snapshot.updatedAt ?? null;
+  }
+
+  batch.users.set(user.id, user);
+  if (!dryRun) {
+    saveUser(user);
+    recordAudit(
+      actorId,
+      AuditAction.Create,
+      AuditEntityType.User,
+      user.id,
+      null,
+      user,
+      "Imported"
+    );
+  }
+
+  return user;
+}
+
+// Import one case row. Exported cases keep their status, history, parties,
+// links and recusals; new cases start as Filed.
+function importCase(
+  record: Record<string, unknown>,
+  batch: ImportBatch,
+  dryRun: boolean,
+  actorId: string
+): Case | ValidationError {
+  const fields = validateNewCase(record, batch);
+  if ("error" in fields) {
+    return fields;
+  }
+
+  const snapshot = readSnapshotFields(
+    record,
+    (id) => caseManager.containsKey(id) || batch.cases.has(id)
+  );
+  if ("error" in snapshot) {
+    return snapshot;
+  }
+
+  // Dry runs do not use up a number from the sequence
+  const court = fields.court ?? getCaseNumberFormat().defaultCourt;
+  const caseNumber =
+    fields.caseNumber ??
+    (dryRun
+      ? ""
+      : generateCaseNumber(
+          court,
+          fields.caseType,
+          snapshot.createdAt ?? getCurrentDate()
+        ));
+  const newCase: Case = {
+    ...new Case(
+      caseNumber,
+      fields.title,
+      fields.description,
+      fields.caseType,
+      court,
+      fields.judgeId,
+      fields.lawyerIds
+    ),
+    ...snapshot,
+  };
+
+  const history = readCaseSnapshot(record, newCase, batch);
+  if ("error" in history) {
+    return history;
+  }
+
+  const caseRecord: Case = { ...newCase, ...history };
+  if (caseRecord.statusHistory.length === 0) {
+    caseRecord.statusHistory.push({
+      from: null,
+      to: caseRecord.status,
+      changedBy: actorId,
+      changedAt: caseRecord.createdAt,
+      reason: "Case imported",
+    });
+  }
+
+  batch.cases.set(caseRecord.id, caseRecord);
+  if (!dryRun) {
+    saveCase(caseRecord);
+    recordAudit(
+      actorId,
+      AuditAction.Create,
+      AuditEntityType.Case,
+      caseRecord.id,
+      null,
+      caseRecord,
+      "Imported"
+    );
+  }
+
+  return caseRecord;
+}
+
+// Check the status, status history, parties, links, former lawyers and
+// recusals of an exported case. Parties and recusals follow the rules of
+// their routes. Links may point at cases later in the import, so only
+// their shape is checked.
+function readCaseSnapshot(
+  record: Record<string, unknown>,
+  caseRecord: Case,
+  batch: ImportBatch
+):
+  | Pick<
+      Case,
+      | "status"
+      | "statusHistory"
+      | "parties"
+      | "links"
+      | "formerLawyerIds"
+      | "recusals"
+    >
+  | ValidationError {
+  const status = record.status ?? CaseStatus.Filed;
+  if (!isCaseStatus(status)) {
+    return {
+      status: 400,
+      error: `Invalid status: Ensure 'status' is one of ${Object.values(
+        CaseStatus
+      ).join(", ")}.`,
+    };
+  }
+
+  const statusHistory = readSnapshotList(record.statusHistory, (item) => {
+    const changedAt = readDate(item.changedAt);
+    const { from, to, changedBy, reason } = item;
+    return (from === null || isCaseStatus(from)) &&
+      isCaseStatus(to) &&
+      typeof changedBy === "string" &&
+      isNullableText(reason) &&
+      changedAt
+      ? { from, to, changedBy, changedAt, reason }
+      : null;
+  });
+  if (
+    !statusHistory ||
+    (statusHistory.length > 0 &&
+      statusHistory[statusHistory.length - 1].to !== status)
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid status history: Ensure each entry has 'from', 'to', 'changedBy', 'changedAt' and 'reason', and the last one moves the case to its 'status'.",
+    };
+  }
+
+  const parties = readSnapshotList(record.parties, (item) => {
+    const addedAt = readDate(item.addedAt);
+    const { id, name, side, addedBy } = item;
+    const litigantId = item.litigantId ?? null;
+    const lawyerIds = readTextList(item.lawyerIds ?? []);
+    const litigant =
+      typeof litigantId === "string" ? findImportUser(litigantId, batch) : null;
+    return typeof id === "string" &&
+      isNonEmptyText(name) &&
+      isPartySide(side) &&
+      (litigantId === null || litigant?.role === UserRole.Litigant) &&
+      lawyerIds?.every((lawyerId) => caseRecord.lawyerIds.includes(lawyerId)) &&
+      typeof addedBy === "string" &&
+      addedAt
+      ? {
+          id,
+          name,
+          side,
+          litigantId: litigant?.id ?? null,
+          lawyerIds,
+          addedBy,
+          addedAt,
+        }
+      : null;
+  });
+  if (!parties) {
+    return {
+      status: 400,
+      error: `Invalid parties: Ensure each party has an 'id', a 'name', a 'side' of ${Object.values(
+        PartySide
+      ).join(
+        ", "
+      )}, an optional litigant 'litigantId', 'lawyerIds' already on the case, 'addedBy' and 'addedAt'.`,
+    };
+  }
+
+  const links = readSnapshotList(record.links, (item) => {
+    const createdAt = readDate(item.createdAt);
+    const { id, type, linkedCaseId, createdBy } = item;
+    return typeof id === "string" &&
+      isCaseLinkType(type) &&
+      isNonEmptyText(linkedCaseId) &&
+      linkedCaseId !== caseRecord.id &&
+      typeof createdBy === "string" &&
+      createdAt
+      ? { id, type, linkedCaseId, createdBy, createdAt }
+      : null;
+  });
+  if (!links) {
+    return {
+      status: 400,
+      error: `Invalid links: Ensure each link has an 'id', a 'type' of ${Object.values(
+        CaseLinkType
+      ).join(
+        ", "
+      )}, another case's 'linkedCaseId', 'createdBy' and 'createdAt'.`,
+    };
+  }
+
+  const formerLawyerIds = readTextList(record.formerLawyerIds ?? []);
+  if (
+    !formerLawyerIds ||
+    formerLawyerIds.some((id) => !findImportUser(id, batch))
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid former lawyers: Ensure 'formerLawyerIds' are valid user IDs.",
+    };
+  }
+
+  // A judge who recused themselves cannot still be on the case
+  const recusals = readSnapshotList(record.recusals, (item) => {
+    const recusedAt = readDate(item.recusedAt);
+    const { judgeId, reason } = item;
+    return typeof judgeId === "string" &&
+      findImportUser(judgeId, batch)?.role === UserRole.Judge &&
+      judgeId !== caseRecord.judgeId &&
+      isNonEmptyText(reason) &&
+      recusedAt
+      ? { judgeId, reason, recusedAt }
+      : null;
+  });
+  if (!recusals) {
+    return {
+      status: 400,
+      error:
+        "Invalid recusals: Ensure each recusal has a 'judgeId' other than the case's judge, a 'reason' and 'recusedAt'.",
+    };
+  }
+
+  return { status, statusHistory, parties, links, formerLawyerIds, recusals };
+}
+
+// Import one hearing row. Imported hearings are not checked for scheduling
+// conflicts, since they record bookings that were already made.
+function importHearing(
+  record: Record<string, unknown>,
+  batch: ImportBatch,
+  dryRun: boolean,
+  actorId: string
+): Hearing | ValidationError {
+  const slot = validateNewHearing(record, batch);
+  if ("error" in slot) {
+    return slot;
+  }
+
+  const snapshot = readSnapshotFields(
+    record,
+    (id) => hearingManager.containsKey(id) || batch.hearingIds.has(id)
+  );
+  if ("error" in snapshot) {
+    return snapshot;
+  }
+
+  const history = readHearingSnapshot(record);
+  if ("error" in history) {
+    return history;
+  }
+
+  const hearing: Hearing = {
+    ...new Hearing(
+      slot.caseRecord.id,
+      slot.judgeId,
+      slot.date,
+      formatCourtroomLocation(slot.courtroom),
+      slot.description,
+      slot.durationMinutes,
+      slot.courtroom.id
+    ),
+    ...snapshot,
+    ...history,
+  };
+
+  batch.hearingIds.add(hearing.id);
+  if (!dryRun) {
+    saveHearing(hearing);
+    recordAudit(
+      actorId,
+      AuditAction.Create,
+      AuditEntityType.Hearing,
+      hearing.id,
+      null,
+      hearing,
+      "Imported"
+    );
+  }
+
+  return hearing;
+}
+
+// Check the status, outcome, reschedules and linked hearings of an
+// exported hearing. Linked hearings may come later in the import, so only
+// their IDs' shape is checked.
+function readHearingSnapshot(
+  record: Record<string, unknown>
+):
+  | Pick<
+      Hearing,
+      | "status"
+      | "statusReason"
+      | "outcome"
+      | "minutes"
+      | "rescheduleHistory"
+      | "previousHearingId"
+      | "nextHearingId"
+      | "leadHearingId"
+    >
+  | ValidationError {
+  const status = record.status ?? HearingStatus.Scheduled;
+  if (!isHearingStatus(status)) {
+    return {
+      status: 400,
+      error: `Invalid status: Ensure 'status' is one of ${Object.values(
+        HearingStatus
+      ).join(", ")}.`,
+    };
+  }
+
+  const statusReason = record.statusReason ?? null;
+  const outcome = record.outcome ?? null;
+  const minutes = record.minutes ?? null;
+  if (
+    !isNullableText(statusReason) ||
+    !isNullableText(outcome) ||
+    !isNullableText(minutes)
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid hearing record: Ensure 'statusReason', 'outcome' and 'minutes' are text or null.",
+    };
+  }
+
+  const rescheduleHistory = readSnapshotList(
+    record.rescheduleHistory,
+    (item) => {
+      const previousDate = readDate(item.previousDate);
+      const previousEndDate = readDate(item.previousEndDate);
+      const newDate = readDate(item.newDate);
+      const changedAt = readDate(item.changedAt);
+      const previousCourtroomId = item.previousCourtroomId ?? null;
+      const { reason, changedBy } = item;
+      return previousDate &&
+        previousEndDate &&
+        newDate &&
+        changedAt &&
+        isNullableText(previousCourtroomId) &&
+        isNullableText(reason) &&
+        typeof changedBy === "string"
+        ? {
+            previousDate,
+            previousEndDate,
+            previousCourtroomId,
+            newDate,
+            reason,
+            changedBy,
+            changedAt,
+          }
+        : null;
+    }
+  );
+  if (!rescheduleHistory) {
+    return {
+      status: 400,
+      error:
+        "Invalid reschedule history: Ensure each entry has valid dates, 'previousCourtroomId', 'reason' and 'changedBy'.",
+    };
+  }
+
+  const previousHearingId = record.previousHearingId ?? null;
+  const nextHearingId = record.nextHearingId ?? null;
+  const leadHearingId = record.leadHearingId ?? null;
+  if (
+    !isNullableText(previousHearingId) ||
+    !isNullableText(nextHearingId) ||
+    !isNullableText(leadHearingId)
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid linked hearings: Ensure 'previousHearingId', 'nextHearingId' and 'leadHearingId' are hearing IDs or null.",
+    };
+  }
+
+  return {
+    status,
+    statusReason,
+    outcome,
+    minutes,
+    rescheduleHistory,
+    previousHearingId,
+    nextHearingId,
+    leadHearingId,
+  };
+}
+
+// Read a list of records from an exported record. Missing lists are empty;
+// returns null if the value is not a list or any item is rejected.
+function readSnapshotList<T>(
+  value: unknown,
+  readItem: (item: Record<string, unknown>) => T | null
+): T[] | null {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const items = value.map((item) =>
+    isPlainObject(item) ? readItem(item) : null
+  );
+  return items.every((item): item is T => item !== null) ? items : null;
+}
+
+// Read a list of strings, or null if the value is anything else
+function readTextList(value: unknown): string[] | null {
+  return Array.isArray(value) &&
+    value.every((item): item is string => typeof item === "string")
+    ? value
+    : null;
+}
+
+// Read an ISO 8601 date, or null if the value is not one
+function readDate(value: unknown): Date | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Look a user up in stored records, then in the current import batch
+function findImportUser(
+  userId: string,
+  batch: ImportBatch | null
+): UserProfile | null {
+  const userOpt = userManager.get(userId);
+  return "None" in userOpt ? (batch?.users.get(userId) ?? null) : userOpt.Some;
+}
+
+// Look a case up in stored records, then in the current import batch
+function findImportCase(
+  caseId: string,
+  batch: ImportBatch | null
+): Case | null {
+  const caseOpt = caseManager.get(caseId);
+  return "None" in caseOpt ? (batch?.cases.get(caseId) ?? null) : caseOpt.Some;
+}
+
+// Cases a caller can see, narrowed by the list filters
+function findCases(caller: UserProfile, filter: CaseFilter): Case[] {
+  return caseManager
+    .values()
+    .filter(
+      (c) =>
+        canViewCase(caller, c) &&
+        (!filter.statuses || filter.statuses.includes(c.status)) &&
+        (!filter.judgeId || c.judgeId === filter.judgeId) &&
+        (!filter.lawyerId || (c.lawyerIds ?? []).includes(filter.lawyerId)) &&
+        isWithinDateRange(c.createdAt, filter.filedRange) &&
+        matchesSearch(filter.q, [c.caseNumber, c.title, c.description])
+    );
+}
+
+// Look up a case the caller is allowed to see
+function findViewableCase(
+  caller: UserProfile,
+  caseId: string
+): Case | ValidationError {
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt) {
+    return {
+      status: 404,
+      error: `Case with id ${caseId} not found`,
+    };
+  }
+
+  if (!canViewCase(caller, caseOpt.Some)) {
+    return forbiddenError("You do not have access to this case");
+  }
+
+  return caseOpt.Some;
+}
+
+// Move a case to a new status, then start deadlines and notify the
+// participants. Shared by PUT /cases/:id/status and the Candid interface.
+function updateCaseStatus(
+  caller: UserProfile,
+  caseId: string,
+  status: unknown,
+  reason: string | null | undefined
+): Case | ValidationError {
+  if (!isCaseStatus(status)) {
+    return {
+      status: 400,
+      error: "Invalid status",
+      details: `'status' must be one of: ${Object.values(CaseStatus).join(
+        ", "
+      )}`,
+    };
+  }
+
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt) {
+    return {
+      status: 404,
+      error: `Case with id ${caseId} not found`,
+    };
+  }
+
+  if (!canManageCase(caller, caseOpt.Some)) {
+    return forbiddenError(
+      "Only the assigned judge or court staff can update this case"
+    );
+  }
+
+  const existingCase = caseOpt.Some;
+  if (!canTransitionCaseStatus(existingCase.status, status)) {
+    return {
+      status: 400,
+      error: "Invalid status transition",
+      details: `Cannot move a case from ${existingCase.status} to ${status}`,
+      allowedTransitions: caseStatusTransitions[existingCase.status] ?? [],
+    };
+  }
+
+  const updatedCase = applyCaseStatusChange(
+    existingCase,
+    status,
+    caller.id,
+    reason
+  );
+
+  saveCase(updatedCase);
+  recordAudit(
+    caller.id,
+    AuditAction.Update,
+    AuditEntityType.Case,
+    caseId,
+    existingCase,
+    updatedCase
+  );
+  triggerCaseDeadlines(
+    caseId,
+    DeadlineTrigger.StatusChanged,
+    status,
+    updatedCase.updatedAt!,
+    caller.id
+  );
+  notifyCaseParticipants(
+    caseId,
+    NotificationEvent.CaseStatusChanged,
+    null,
+    `Case ${updatedCase.caseNumber} moved from ${existingCase.status} to ${status}`,
+    caller.id
+  );
+  return updatedCase;
+}
+
+// Put a judge on a case. Conflicts of interest are rejected unless
+// 'allowConflicts' is set, and are returned either way. Shared by
+// PUT /cases/:id/judge and the Candid interface.
+function assignJudge(
+  caller: UserProfile,
+  caseId: string,
+  judgeId: unknown,
+  allowConflicts: boolean
+):
+  | { case: Case; judge: UserProfile; conflicts: ConflictOfInterest[] }
+  | ValidationError {
+  // Validate request body
+  if (!judgeId || typeof judgeId !== "string") {
+    return {
+      status: 400,
+      error: "Missing required field: judgeId",
+      details: "The request body must include a judgeId",
+    };
+  }
+
+  // Validate case exists
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt) {
+    return {
+      status: 404,
+      error: "Case not found",
+      details: `Case with id ${caseId} does not exist`,
+    };
+  }
+
+  const existingCase = caseOpt.Some;
+  if (isCaseClosed(existingCase)) {
+    return {
+      status: 400,
+      error: "Invalid operation",
+      details: "Cannot modify judge for a closed case",
+    };
+  }
+
+  // Validate judgeId and role
+  const judgeOpt = userManager.get(judgeId);
+  if ("None" in judgeOpt) {
+    return {
+      status: 400,
+      error: "Judge not found",
+      details: `Judge with id ${judgeId} does not exist`,
+    };
+  }
+
+  const judge = judgeOpt.Some;
+  if (judge.role !== UserRole.Judge) {
+    return {
+      status: 400,
+      error: "Invalid role",
+      details: "User is not a judge",
+    };
+  }
+
+  if (!judge.active) {
+    return deactivatedUsersError([judgeId]);
+  }
+
+  // A judge who recused themselves cannot be put back on the case
+  if (getRecusedJudgeIds(existingCase).includes(judgeId)) {
+    return {
+      status: 400,
+      error: "Judge recused",
+      details: `Judge ${judgeId} has recused themselves from this case`,
+    };
+  }
+
+  const updatedCase = {
+    ...existingCase,
+    judgeId: judgeId,
+    updatedAt: getCurrentDate(),
+  };
+
+  const conflicts = findNewConflictsOfInterest(existingCase, updatedCase);
+  if (conflicts.length > 0 && !allowConflicts) {
+    return {
+      status: 409,
+      error: "Conflict of interest",
+      details:
+        "Resolve the conflicts or send 'allowConflicts: true' to proceed anyway.",
+      conflicts: conflicts,
+    };
+  }
+
+  saveCase(updatedCase);
+  recordAudit(
+    caller.id,
+    AuditAction.Update,
+    AuditEntityType.Case,
+    caseId,
+    existingCase,
+    updatedCase
+  );
+  if (existingCase.judgeId !== judgeId) {
+    notifyUsers(
+      [judgeId],
+      NotificationEvent.CaseAssigned,
+      caseId,
+      null,
+      `You have been assigned to case ${updatedCase.caseNumber}`,
+      caller.id
+    );
+  }
+
+  return { case: updatedCase, judge: judge, conflicts: conflicts };
+}
+
+// Schedule a hearing, and joint hearings for the consolidated cases when
+// 'propagateToConsolidated' is set. Double-bookings are rejected unless
+// 'allowConflicts' is set. Shared by POST /hearings and the Candid interface.
+function scheduleHearing(
+  caller: UserProfile,
+  body: unknown
+):
+  | { hearing: Hearing; jointHearings: Hearing[]; conflicts: HearingConflict[] }
+  | ValidationError {
+  const slot = validateNewHearing(body);
+  if ("error" in slot) {
+    return slot;
+  }
+
+  if (!canManageCase(caller, slot.caseRecord)) {
+    return forbiddenError(
+      "Only the assigned judge or court staff can schedule hearings for this case"
+    );
+  }
+
+  const deactivatedIds = findDeactivatedUserIds([slot.judgeId]);
+  if (deactivatedIds.length > 0) {
+    return deactivatedUsersError(deactivatedIds);
+  }
+
+  const unpaidCharges = findUnpaidCharges(
+    slot.caseRecord.id,
+    FeeGatedAction.ScheduleHearing
+  );
+  if (unpaidCharges.length > 0) {
+    return unpaidFeesError(unpaidCharges);
+  }
+
+  const fields = isPlainObject(body) ? body : {};
+  const { propagateToConsolidated, allowConflicts } = fields;
+  const propagate = propagateToConsolidated === true;
+  const memberCaseIds = getConsolidatedCaseIds(slot.caseRecord);
+  if (propagate && memberCaseIds.length === 0) {
+    return {
+      status: 400,
+      error: "Invalid operation",
+      details:
+        "'propagateToConsolidated' needs the lead case of a consolidated group",
+    };
+  }
+
+  // Hear the open cases consolidated with a lead case at the same time
+  const jointCaseIds = propagate
+    ? memberCaseIds.filter((memberCaseId) => {
+        const memberCaseOpt = caseManager.get(memberCaseId);
+        return !("None" in memberCaseOpt) && !isCaseClosed(memberCaseOpt.Some);
+      })
+    : [];
+
+  // Every case getting a hearing must have its hearing fees paid
+  const unpaidJointCharges = jointCaseIds.flatMap((memberCaseId) =>
+    findUnpaidCharges(memberCaseId, FeeGatedAction.ScheduleHearing)
+  );
+  if (unpaidJointCharges.length > 0) {
+    return unpaidFeesError(unpaidJointCharges);
+  }
+
+  const hearingInstance = new Hearing(
+    slot.caseRecord.id,
+    slot.judgeId,
+    slot.date,
+    formatCourtroomLocation(slot.courtroom),
+    slot.description,
+    slot.durationMinutes,
+    slot.courtroom.id
+  );
+
+  const jointHearings = jointCaseIds.map((memberCaseId) => {
+    const jointHearing = new Hearing(
+      memberCaseId,
+      hearingInstance.judgeId,
+      slot.date,
+      hearingInstance.location,
+      hearingInstance.description,
+      slot.durationMinutes,
+      slot.courtroom.id
+    );
+    jointHearing.leadHearingId = hearingInstance.id;
+    return jointHearing;
+  });
+
+  // Reject double-bookings unless the caller explicitly overrides them
+  const conflicts = [hearingInstance, ...jointHearings]
+    .flatMap(findHearingConflicts)
+    .filter(
+      (c, index, all) =>
+        all.findIndex((o) => o.hearing.id === c.hearing.id) === index
+    );
+  if (conflicts.length > 0 && allowConflicts !== true) {
+    return {
+      status: 409,
+      error: "Scheduling conflict",
+      details:
+        "The hearing overlaps existing hearings for the same judge, location or lawyers. Set 'allowConflicts' to true to schedule anyway.",
+      conflicts: conflicts,
+    };
+  }
+
+  for (const hearing of [hearingInstance, ...jointHearings]) {
+    saveHearing(hearing);
+    recordAudit(
+      caller.id,
+      AuditAction.Create,
+      AuditEntityType.Hearing,
+      hearing.id,
+      null,
+      hearing
+    );
+    notifyCaseParticipants(
+      hearing.caseId,
+      NotificationEvent.HearingScheduled,
+      hearing.id,
+      `Hearing scheduled for ${new Date(hearing.date).toISOString()} at ${hearing.location}`,
+      caller.id
+    );
+  }
+
+  return {
+    hearing: hearingInstance,
+    jointHearings: jointHearings,
+    conflicts: conflicts,
+  };
+}
+
+// Check a new hearing payload; shared by POST /hearings and the importer.
+// Returns the validated fields, slot and case.
+function validateNewHearing(
+  body: unknown,
+  batch: ImportBatch | null = null
+): NewHearingFields | ValidationError {
+  const fields = isPlainObject(body) ? body : {};
+  const { caseId, judgeId, description } = fields;
+  if (
+    !isNonEmptyText(caseId) ||
+    !isNonEmptyText(judgeId) ||
+    !fields.date ||
+    !fields.courtroomId ||
+    !isNonEmptyText(description)
+  ) {
+    return {
+      status: 400,
+      error: "Invalid payload: Ensure all required fields are provided.",
+    };
+  }
+
+  // Validate date, duration and courtroom
+  const slot = parseHearingSlot(fields, null);
+  if (typeof slot === "string") {
+    return {
+      status: 400,
+      error: slot,
+    };
+  }
+
+  // Validate caseId
+  const caseRecord = findImportCase(caseId, batch);
+  if (!caseRecord) {
+    return {
+      status: 400,
+      error: "Case not found: Ensure 'caseId' is a valid case ID.",
+    };
+  }
+
+  // Validate judgeId
+  if (!findImportUser(judgeId, batch)) {
+    return {
+      status: 400,
+      error: "Judge not found: Ensure 'judgeId' is a valid user ID.",
+    };
+  }
 
-  // Get all cases
-  app.get("/cases", (req, res) => {
-    try {
-      const cases = caseManager.values();
+  return { ...slot, caseRecord, judgeId, description };
+}
 
-      if (cases.length === 0) {
-        return res.status(404).json({
-          message: "No cases found.",
-        });
-      }
+// Check a new case payload; shared by POST /cases and the importer
+function validateNewCase(
+  body: unknown,
+  batch: ImportBatch | null = null
+): NewCaseFields | ValidationError {
+  const fields = isPlainObject(body) ? body : {};
+  const { title, description, caseType, court, caseNumber } = fields;
+  if (!isNonEmptyText(title) || !isNonEmptyText(description) || !caseType) {
+    return {
+      status: 400,
+      error: "Invalid payload: Ensure all required fields are provided.",
+    };
+  }
 
-      res.status(200).json({
-        message: "Cases retrieved successfully.",
-        cases: cases,
-      });
-    } catch (error) {
-      console.error("Error fetching cases:", error);
-      res.status(500).json({
-        error: "Server error occurred while fetching cases.",
-      });
-    }
-  });
+  if (!isCaseType(caseType)) {
+    return {
+      status: 400,
+      error: `Invalid case type: Ensure 'caseType' is one of ${Object.values(
+        CaseType
+      ).join(", ")}.`,
+    };
+  }
 
-  // Update case status
-  app.put("/cases/:id/status", (req, res) => {
-    const caseId = req.params.id;
-    const { status } = req.body;
+  if (court !== undefined && !isCourtCode(court)) {
+    return {
+      status: 400,
+      error:
+        "Invalid court: Ensure 'court' is 1 to 16 letters, digits or hyphens.",
+    };
+  }
 
-    const caseOpt = caseManager.get(caseId);
-    if ("None" in caseOpt) {
-      return res.status(404).json({
-        status: 404,
-        error: `Case with id ${caseId} not found`,
-      });
+  if (caseNumber !== undefined) {
+    if (!isNonEmptyText(caseNumber)) {
+      return {
+        status: 400,
+        error:
+          "Invalid case number: Ensure 'caseNumber' is a non-empty string.",
+      };
     }
 
-    const updatedCase = {
-      ...caseOpt.Some,
-      status: status,
-      updatedAt: getCurrentDate(),
+    if (
+      isCaseNumberTaken(caseNumber) ||
+      [...(batch?.cases.values() ?? [])].some(
+        (c) => c.caseNumber === caseNumber
+      )
+    ) {
+      return {
+        status: 409,
+        error: "Case number already exists",
+        details: `Another case is already numbered ${caseNumber}`,
+      };
+    }
+  }
+
+  // Optional validation for judgeId if provided
+  const judgeId = fields.judgeId || null;
+  if (
+    judgeId !== null &&
+    (typeof judgeId !== "string" || !findImportUser(judgeId, batch))
+  ) {
+    return {
+      status: 400,
+      error: "Judge not found: Ensure 'judgeId' is a valid user ID.",
     };
+  }
 
-    caseManager.insert(caseId, updatedCase);
-    res.json({
-      status: 200,
-      message: "Case status updated successfully.",
-      case: updatedCase,
-    });
-  });
+  // Optional validation for lawyerIds if provided
+  const lawyerIds = readTextList(fields.lawyerIds ?? []);
+  if (!lawyerIds) {
+    return {
+      status: 400,
+      error: "Invalid lawyer IDs: Ensure 'lawyerIds' is an array.",
+    };
+  }
 
-  // Get case by ID
-  app.get("/cases/:id", (req, res) => {
-    const caseId = req.params.id;
+  if (lawyerIds.some((id) => !findImportUser(id, batch))) {
+    return {
+      status: 400,
+      error: "Lawyer not found: Ensure all 'lawyerIds' are valid user IDs.",
+    };
+  }
 
-    const caseOpt = caseManager.get(caseId);
-    if ("None" in caseOpt) {
-      res.status(400).json({
-        status: 400,
-        message: `Couldn't find case with id=${caseId}`,
-      });
-    } else {
-      res.status(200).json({
-        message: "Case retrieved successfully.",
-        case: caseOpt.Some,
-      });
-    }
-  });
+  return {
+    title,
+    description,
+    caseType,
+    court: court ?? null,
+    caseNumber: caseNumber ?? null,
+    judgeId,
+    lawyerIds,
+  };
+}
 
-  // Updated function to add judge to a case with comprehensive error handling
-  app.put("/cases/:id/judge", (req, res) => {
-    try {
-      const caseId = req.params.id;
-      const { judgeId } = req.body;
+// Check a principal to link to a user; null unlinks. The anonymous
+// principal is shared by every unauthenticated caller, so it is refused.
+function validatePrincipal(principal: unknown): string | null {
+  if (principal === null || principal === undefined) {
+    return null;
+  }
 
-      // Validate request body
-      if (!judgeId) {
-        return res.status(400).json({
-          status: 400,
-          error: "Missing required field: judgeId",
-          details: "The request body must include a judgeId",
-        });
-      }
+  if (typeof principal !== "string") {
+    return "'principal' must be principal text or null";
+  }
 
-      // Validate case exists
-      const caseOpt = caseManager.get(caseId);
-      if ("None" in caseOpt) {
-        return res.status(404).json({
-          status: 404,
-          error: "Case not found",
-          details: `Case with id ${caseId} does not exist`,
-        });
-      }
+  try {
+    if (Principal.fromText(principal).isAnonymous()) {
+      return "The anonymous principal cannot be linked to a user";
+    }
+  } catch {
+    return `'${principal}' is not a valid principal`;
+  }
 
-      const existingCase = caseOpt.Some;
+  return null;
+}
 
-      // Validate case status (optional - depending on your business rules)
-      if (existingCase.status === "Closed") {
-        return res.status(400).json({
-          status: 400,
-          error: "Invalid operation",
-          details: "Cannot modify judge for a closed case",
-        });
-      }
+// Check a new user payload; shared by POST /users and the importer. Imports
+// may carry an existing password hash instead of a password.
+function validateNewUser(
+  body: unknown,
+  batch: ImportBatch | null = null,
+  allowPasswordHash: boolean = false
+): NewUserFields | ValidationError {
+  const fields = isPlainObject(body) ? body : {};
+  const { username, email, role } = fields;
+  const passwordHash = allowPasswordHash ? fields.passwordHash : undefined;
+  const password = passwordHash ? passwordHash : fields.password;
+  if (
+    !isNonEmptyText(username) ||
+    !isNonEmptyText(email) ||
+    !isNonEmptyText(password) ||
+    !role
+  ) {
+    return {
+      status: 400,
+      error: "Invalid payload: Ensure all required fields are provided.",
+    };
+  }
 
-      // Validate judgeId
-      const judgeOpt = userManager.get(judgeId);
-      if ("None" in judgeOpt) {
-        return res.status(400).json({
-          status: 400,
-          error: "Judge not found",
-          details: `Judge with id ${judgeId} does not exist`,
-        });
-      }
+  if (!isUserRole(role)) {
+    return {
+      status: 400,
+      error: `Invalid role: Ensure 'role' is one of ${Object.values(
+        UserRole
+      ).join(", ")}.`,
+    };
+  }
 
-      // Validate judge role
-      const judge = judgeOpt.Some;
-      if (judge.role !== UserRole.Judge) {
-        return res.status(400).json({
-          status: 400,
-          error: "Invalid role",
-          details: "User is not a judge",
-        });
-      }
+  // Ensure username is unique
+  const batchUsers = [...(batch?.users.values() ?? [])];
+  if (
+    findUserByUsername(username) ||
+    batchUsers.some((u) => u.username === username)
+  ) {
+    return {
+      status: 400,
+      error: "Username already exists: Ensure 'username' is unique.",
+    };
+  }
 
-      // Create updated case object
-      const updatedCase = {
-        ...existingCase,
-        judgeId: judgeId,
-        updatedAt: getCurrentDate(),
+  // Ensure password is secure
+  if (passwordHash) {
+    if (!isPasswordHash(password)) {
+      return {
+        status: 400,
+        error: `Invalid password hash: Ensure 'passwordHash' is a ${PASSWORD_HASH_ALGORITHM} hash.`,
       };
+    }
+  } else if (!isPasswordSecure(password)) {
+    return {
+      status: 400,
+      error:
+        "Weak password: Ensure 'password' is at least 8 characters long, contains an uppercase letter, a lowercase letter, a digit, and a special character.",
+    };
+  }
 
-      // Update the case
-      try {
-        caseManager.insert(caseId, updatedCase);
-      } catch (error) {
-        console.error("Error updating case:", error);
-        return res.status(500).json({
-          status: 500,
-          error: "Database error",
-          details: "Failed to update case with new judge",
-        });
-      }
+  // Validate the email format to ensure it's correct
+  if (!isEmailAddress(email)) {
+    return {
+      status: 400,
+      error: "Invalid email format: Ensure 'email' is a valid email address.",
+    };
+  }
 
-      // Prepare success response with detailed information
-      return res.status(200).json({
-        status: 200,
-        message: "Judge successfully assigned to case",
-        data: {
-          case: updatedCase,
-          modifiedAt: updatedCase.updatedAt,
-          judge: judge,
-        },
-      });
-    } catch (error) {
-      console.error("Error in add judge endpoint:", error);
-      return res.status(500).json({
-        status: 500,
-        error: "Internal server error",
-        details: "An unexpected error occurred while processing the request",
-      });
-    }
-  });
+  // Check if the user already exists
+  if (findUserByEmail(email) || batchUsers.some((u) => u.email === email)) {
+    return {
+      status: 400,
+      error: "User already exists: Ensure 'email' is unique.",
+    };
+  }
 
-  // Get all cases for a judge with validation
-  app.get("/judges/:id/cases", (req, res) => {
-    try {
-      const judgeId = req.params.id;
+  return {
+    username,
+    email,
+    password,
+    passwordIsHash: !!passwordHash,
+    role,
+  };
+}
 
-      // Validate if judgeId is provided
-      if (!judgeId) {
-        return res.status(400).json({
-          status: 400,
-          error: "Judge ID is required",
-        });
-      }
+// Check a user update payload against the rules for new users. Only
+// username, email, password and role can be edited.
+function validateUserUpdate(
+  body: unknown,
+  existing: UserProfile
+): UserUpdateFields | ValidationError {
+  const fields = isPlainObject(body) ? body : {};
+  const username = fields.username ?? existing.username;
+  const email = fields.email ?? existing.email;
+  const role = fields.role ?? existing.role;
+  const password = fields.password ?? null;
+  if (
+    !isNonEmptyText(username) ||
+    !isNonEmptyText(email) ||
+    (password !== null && !isNonEmptyText(password))
+  ) {
+    return {
+      status: 400,
+      error:
+        "Invalid payload: Ensure 'username', 'email' and 'password' are non-empty strings.",
+    };
+  }
 
-      // Validate if judge exists and has correct role
-      const judgeOpt = userManager.get(judgeId);
-      if ("None" in judgeOpt) {
-        return res.status(404).json({
-          status: 404,
-          error: `Judge with id ${judgeId} not found`,
-        });
-      }
+  if (!isUserRole(role)) {
+    return {
+      status: 400,
+      error: `Invalid role: Ensure 'role' is one of ${Object.values(
+        UserRole
+      ).join(", ")}.`,
+    };
+  }
 
-      const judge = judgeOpt.Some;
-      if (judge.role !== UserRole.Judge) {
-        return res.status(403).json({
-          status: 403,
-          error: "User is not a judge",
-        });
-      }
+  // Keep usernames and emails unique
+  const usernameOwner = findUserByUsername(username);
+  if (usernameOwner && usernameOwner.id !== existing.id) {
+    return {
+      status: 400,
+      error: "Username already exists: Ensure 'username' is unique.",
+    };
+  }
 
-      // Get all cases assigned to the judge
-      const cases = caseManager.values().filter((c) => {
-        // Check if judgeId is properly assigned to the case
-        return c.judgeId === judgeId;
-      });
+  if (password !== null && !isPasswordSecure(password)) {
+    return {
+      status: 400,
+      error:
+        "Weak password: Ensure 'password' is at least 8 characters long, contains an uppercase letter, a lowercase letter, a digit, and a special character.",
+    };
+  }
 
-      // Add case statistics
-      const caseStats = {
-        total: cases.length,
-        openCases: cases.filter((c) => c.status === "Open").length,
-        closedCases: cases.filter((c) => c.status === "Closed").length,
-      };
+  if (!isEmailAddress(email)) {
+    return {
+      status: 400,
+      error: "Invalid email format: Ensure 'email' is a valid email address.",
+    };
+  }
 
-      // Get associated hearings for these cases
-      const hearings = hearingManager
-        .values()
-        .filter((h) => cases.some((c) => c.id === h.caseId));
+  const emailOwner = findUserByEmail(email);
+  if (emailOwner && emailOwner.id !== existing.id) {
+    return {
+      status: 400,
+      error: "User already exists: Ensure 'email' is unique.",
+    };
+  }
 
-      // Return appropriate response based on results
-      if (cases.length === 0) {
-        return res.status(200).json({
-          status: 200,
-          message: "No cases found for the judge",
-          cases: [],
-          statistics: {
-            total: 0,
-            openCases: 0,
-            closedCases: 0,
-          },
-          hearings: [],
-        });
-      }
+  return { username, email, password, role };
+}
 
-      return res.status(200).json({
-        status: 200,
-        message: "Cases retrieved successfully",
-        cases: cases.map((c) => ({
-          ...c,
-          hearings: hearings.filter((h) => h.caseId === c.id),
-        })),
-        statistics: caseStats,
-      });
-    } catch (error) {
-      console.error("Error fetching judge cases:", error);
-      return res.status(500).json({
-        status: 500,
-        error: "Internal server error while fetching judge cases",
-      });
-    }
+function isEmailAddress(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+// Ensure password is secure
+function isPasswordSecure(password: string): boolean {
+  const lengthCheck = password.length >= 8;
+  const uppercaseCheck = /[A-Z]/.test(password);
+  const lowercaseCheck = /[a-z]/.test(password);
+  const digitCheck = /\d/.test(password);
+  const specialCharCheck = /[!@#$%^&*(),.?":{}|<>]/.test(password);
+
+  return (
+    lengthCheck &&
+    uppercaseCheck &&
+    lowercaseCheck &&
+    digitCheck &&
+    specialCharCheck
+  );
+}
+
+// Hash password with a random salt as "algorithm$iterations$salt$hash"
+function hashPassword(password: string): string {
+  const salt = randomSecretBytes(PASSWORD_SALT_BYTES);
+  const hash = pbkdf2(sha256, utf8ToBytes(password), salt, {
+    c: PASSWORD_HASH_ITERATIONS,
+    dkLen: 32,
   });
 
-  // Updated function to add lawyers to a case with comprehensive error handling
-  app.put("/cases/:id/lawyers", (req, res) => {
-    try {
-      const caseId = req.params.id;
-      const { lawyerIds } = req.body;
+  return [
+    PASSWORD_HASH_ALGORITHM,
+    PASSWORD_HASH_ITERATIONS,
+    bytesToHex(salt),
+    bytesToHex(hash),
+  ].join("$");
+}
 
-      // Validate request body
-      if (!lawyerIds) {
-        return res.status(400).json({
-          status: 400,
-          error: "Missing required field: lawyerIds",
-          details: "The request body must include a lawyerIds array",
-        });
-      }
+// Verify a password against a stored hash
+function verifyPassword(password: string, storedHash: string): boolean {
+  const [algorithm, iterations, salt, hash] = storedHash.split("$");
 
-      // Validate lawyerIds is an array
-      if (!Array.isArray(lawyerIds)) {
-        return res.status(400).json({
-          status: 400,
-          error: "Invalid data type for lawyerIds",
-          details: "lawyerIds must be an array of strings",
-        });
-      }
+  // Accounts created before salted hashing was introduced
+  if (algorithm !== PASSWORD_HASH_ALGORITHM) {
+    return constantTimeEquals(legacyHashPassword(password), storedHash);
+  }
 
-      // Validate array is not empty
-      if (lawyerIds.length === 0) {
-        return res.status(400).json({
-          status: 400,
-          error: "Empty lawyerIds array",
-          details: "At least one lawyer ID must be provided",
-        });
-      }
+  const candidate = pbkdf2(sha256, utf8ToBytes(password), hexToBytes(salt), {
+    c: Number(iterations),
+    dkLen: 32,
+  });
 
-      // Validate case exists
-      const caseOpt = caseManager.get(caseId);
-      if ("None" in caseOpt) {
-        return res.status(404).json({
-          status: 404,
-          error: "Case not found",
-          details: `Case with id ${caseId} does not exist`,
-        });
-      }
+  return constantTimeEquals(bytesToHex(candidate), hash);
+}
 
-      const existingCase = caseOpt.Some;
+// Check whether a stored hash uses an outdated scheme or work factor
+function needsRehash(storedHash: string): boolean {
+  const [algorithm, iterations] = storedHash.split("$");
+  return (
+    algorithm !== PASSWORD_HASH_ALGORITHM ||
+    Number(iterations) !== PASSWORD_HASH_ITERATIONS
+  );
+}
 
-      // Validate case status (optional - depending on your business rules)
-      if (existingCase.status === "Closed") {
-        return res.status(400).json({
-          status: 400,
-          error: "Invalid operation",
-          details: "Cannot modify lawyers for a closed case",
-        });
-      }
+// Legacy hash kept only to verify accounts created before salted hashing
+function legacyHashPassword(password: string): string {
+  return `hashed_${password.split("").reverse().join("").toUpperCase()}_secure`;
+}
+
+// Check that a value is a hash produced by hashPassword
+function isPasswordHash(value: unknown): boolean {
+  return (
+    typeof value === "string" &&
+    new RegExp(
+      `^${PASSWORD_HASH_ALGORITHM}\\$\\d+\\$[0-9a-f]+\\$[0-9a-f]{64}$`
+    ).test(value)
+  );
+}
+
+// Compare two strings without leaking the position of the first mismatch
+function constantTimeEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
 
-      // Validate and collect lawyer information
-      const validatedLawyers = [];
-      const invalidLawyers = [];
+  return diff === 0;
+}
 
-      for (const lawyerId of lawyerIds) {
-        // Validate lawyer ID format (assuming UUID)
-        if (typeof lawyerId !== "string" || !lawyerId.trim()) {
-          invalidLawyers.push({
-            id: lawyerId,
-            reason: "Invalid ID format",
-          });
-          continue;
-        }
+// Generate a random session token
+function generateSessionToken(): string {
+  return bytesToHex(randomSecretBytes(SESSION_TOKEN_BYTES));
+}
 
-        // Check if lawyer exists
-        const lawyerOpt = userManager.get(lawyerId);
-        if ("None" in lawyerOpt) {
-          invalidLawyers.push({
-            id: lawyerId,
-            reason: "Lawyer not found",
-          });
-          continue;
-        }
+// Azle's crypto.getRandomValues is Math.random() with a fixed seed, so
+// secrets come from an HMAC-SHA256 generator seeded with the management
+// canister's raw_rand. The seed lives on the heap and is fetched again on the
+// first request that needs it after an upgrade.
+let entropySeed: Uint8Array | null = null;
+let entropyCounter = 0;
 
-        // Validate lawyer role
-        const lawyer = lawyerOpt.Some;
-        if (lawyer.role !== UserRole.Lawyer) {
-          invalidLawyers.push({
-            id: lawyerId,
-            reason: "User is not a lawyer",
-          });
-          continue;
-        }
+// Fetch the seed from raw_rand unless it is already set. Only update calls
+// can make the inter-canister call.
+async function seedEntropy() {
+  if (entropySeed === null) {
+    entropySeed = await ic.call(managementCanister.raw_rand);
+  }
+}
 
-        validatedLawyers.push(lawyerId);
-      }
+// Unpredictable bytes for session tokens, calendar feed tokens and password
+// salts
+function randomSecretBytes(length: number): Uint8Array {
+  if (entropySeed === null) {
+    throw new Error("Canister entropy has not been seeded");
+  }
 
-      // If any lawyers are invalid, return error with details
-      if (invalidLawyers.length > 0) {
-        return res.status(400).json({
-          status: 400,
-          error: "Invalid lawyer IDs detected",
-          details: {
-            invalidLawyers,
-            message:
-              "One or more lawyer IDs are invalid or not associated with lawyer accounts",
-          },
-        });
-      }
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 32) {
+    entropyCounter++;
+    const block = hmac(sha256, entropySeed, utf8ToBytes(`${entropyCounter}`));
+    bytes.set(block.subarray(0, length - offset), offset);
+  }
 
-      // Remove duplicates
-      const uniqueLawyerIds = [...new Set(validatedLawyers)];
+  return bytes;
+}
 
-      // Create updated case object
-      const updatedCase = {
-        ...existingCase,
-        lawyerIds: uniqueLawyerIds,
-        updatedAt: getCurrentDate(),
-      };
+// Session tokens are stored hashed so a memory dump cannot be replayed
+function hashSessionToken(token: string): string {
+  return bytesToHex(sha256(utf8ToBytes(token)));
+}
 
-      // Update the case
-      try {
-        caseManager.insert(caseId, updatedCase);
-      } catch (error) {
-        console.error("Error updating case:", error);
-        return res.status(500).json({
-          status: 500,
-          error: "Database error",
-          details: "Failed to update case with new lawyers",
-        });
-      }
+// Extract the token from an "Authorization: Bearer <token>" header
+function getBearerToken(authorization: string | undefined): string | null {
+  if (!authorization) {
+    return null;
+  }
 
-      // Prepare success response with detailed information
-      return res.status(200).json({
-        status: 200,
-        message: "Lawyers successfully assigned to case",
-        data: {
-          case: updatedCase,
-          modifiedAt: updatedCase.updatedAt,
-          lawyers: {
-            total: uniqueLawyerIds.length,
-            ids: uniqueLawyerIds,
-          },
-        },
-      });
-    } catch (error) {
-      console.error("Error in add lawyers endpoint:", error);
-      return res.status(500).json({
-        status: 500,
-        error: "Internal server error",
-        details: "An unexpected error occurred while processing the request",
-      });
-    }
-  });
+  const [scheme, token] = authorization.split(" ");
+  if (scheme.toLowerCase() !== "bearer" || !token) {
+    return null;
+  }
 
-  // Get all cases for a lawyer with validation
-  app.get("/lawyers/:id/cases", (req, res) => {
-    try {
-      const lawyerId = req.params.id;
+  return token.trim();
+}
 
-      // Validate if lawyerId is provided
-      if (!lawyerId) {
-        return res.status(400).json({
-          status: 400,
-          error: "Lawyer ID is required",
-        });
-      }
+// Resolve the user behind a session token, dropping expired sessions. Azle
+// serves GET requests as query calls, whose removals are not kept, so
+// pruneExpiredSessions also clears them on login.
+function resolveCaller(authorization: string | undefined): UserProfile | null {
+  const token = getBearerToken(authorization);
+  if (!token) {
+    return null;
+  }
 
-      // Validate if lawyer exists and has correct role
-      const lawyerOpt = userManager.get(lawyerId);
-      if ("None" in lawyerOpt) {
-        return res.status(404).json({
-          status: 404,
-          error: `Lawyer with id ${lawyerId} not found`,
-        });
-      }
+  const tokenHash = hashSessionToken(token);
+  const sessionOpt = sessionManager.get(tokenHash);
+  if ("None" in sessionOpt) {
+    return null;
+  }
 
-      // Validate if user is a lawyer
-      const lawyer = lawyerOpt.Some;
-      if (lawyer.role !== UserRole.Lawyer) {
-        return res.status(403).json({
-          status: 403,
-          error: "User is not a lawyer",
-        });
-      }
+  const session = sessionOpt.Some;
+  if (new Date(session.expiresAt) <= getCurrentDate()) {
+    sessionManager.remove(tokenHash);
+    return null;
+  }
 
-      // Get all cases and filter for the lawyer
-      const cases = caseManager
-        .values()
-        .filter(
-          (c) => Array.isArray(c.lawyerIds) && c.lawyerIds.includes(lawyerId)
-        );
+  const userOpt = userManager.get(session.userId);
+  if ("None" in userOpt || !userOpt.Some.active) {
+    return null;
+  }
 
-      // Return appropriate response based on results
-      if (cases.length === 0) {
-        return res.status(200).json({
-          status: 200,
-          message: "No cases found for the lawyer",
-          cases: [],
-        });
-      }
+  return userOpt.Some;
+}
 
-      return res.status(200).json({
-        status: 200,
-        message: "Cases retrieved successfully",
-        cases: cases,
-      });
-    } catch (error) {
-      console.error("Error fetching lawyer cases:", error);
-      return res.status(500).json({
-        status: 500,
-        error: "Internal server error while fetching lawyer cases",
-      });
+// Calendar apps cannot send headers, so calendar feeds also accept a feed
+// token as a '?token=' query parameter. The token only works on the feed it
+// was issued for, and acts with its owner's current permissions.
+function allowFeedToken(scope: CalendarFeedScope) {
+  return (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => {
+    if (!getCaller(res) && typeof req.query.token === "string") {
+      const feedOpt = calendarFeedManager.get(
+        hashSessionToken(req.query.token)
+      );
+      if (
+        !("None" in feedOpt) &&
+        feedOpt.Some.scope === scope &&
+        feedOpt.Some.targetId === req.params.id
+      ) {
+        const userOpt = userManager.get(feedOpt.Some.userId);
+        if (!("None" in userOpt) && userOpt.Some.active) {
+          res.locals.caller = userOpt.Some;
+        }
+      }
     }
-  });
 
-  // Schedule a hearing
-  app.post("/hearings", (req, res) => {
-    if (
-      !req.body.caseId ||
-      !req.body.judgeId ||
-      !req.body.date ||
-      !req.body.location ||
-      !req.body.description
-    ) {
-      return res.status(400).json({
-        status: 400,
-        error: "Invalid payload: Ensure all required fields are provided.",
-      });
-    }
+    next();
+  };
+}
 
-    // Validate caseId
-    const caseOpt = caseManager.get(req.body.caseId);
-    if ("None" in caseOpt) {
-      return res.status(400).json({
-        status: 400,
-        error: "Case not found: Ensure 'caseId' is a valid case ID.",
-      });
-    }
+// Get the authenticated caller for the current request, if any
+function getCaller(res: express.Response): UserProfile | null {
+  return res.locals.caller ?? null;
+}
 
-    // Validate judgeId
-    const judgeOpt = userManager.get(req.body.judgeId);
-    if ("None" in judgeOpt) {
-      return res.status(400).json({
-        status: 400,
-        error: "Judge not found: Ensure 'judgeId' is a valid user ID.",
-      });
-    }
+// Require an authenticated caller
+function authenticate(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  if (!getCaller(res)) {
+    return res.status(401).json({
+      status: 401,
+      error: "Authentication required",
+      details: "Provide a valid 'Authorization: Bearer <token>' header",
+    });
+  }
 
-    try {
-      const hearingInstance = new Hearing(
-        req.body.caseId,
-        req.body.judgeId,
-        new Date(req.body.date),
-        req.body.location,
-        req.body.description
-      );
+  next();
+}
 
-      hearingManager.insert(hearingInstance.id, hearingInstance);
-      res.status(201).json({
-        message: "Hearing scheduled successfully.",
-        hearing: hearingInstance,
+// Seed the entropy generator before routes that issue tokens or hash
+// passwords. Express 4 does not catch rejected promises, so failures are
+// answered here.
+function requireEntropy(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  seedEntropy().then(
+    () => next(),
+    (error) => {
+      console.error("Error fetching canister entropy:", error);
+      res.status(503).json({
+        status: 503,
+        error: "Randomness is unavailable, try again shortly.",
       });
-    } catch (error) {
-      console.error("Error scheduling hearing:", error);
-      res
-        .status(500)
-        .json({ error: "Server error occurred while scheduling the hearing." });
     }
-  });
+  );
+}
 
-  // Get all hearings
-  app.get("/hearings", (req, res) => {
-    try {
-      const hearings = hearingManager.values();
+// Azle serves GET requests as query calls and drops their state changes.
+// Routes whose audit entry must be kept refuse to run as a query.
+function requireUpdateCall(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  if (ic.methodName() !== "http_request_update") {
+    return res.status(400).json({
+      status: 400,
+      error: "Update call required",
+      details:
+        "Send this request as POST, or with an 'X-Ic-Force-Update: true' header, so it is recorded",
+    });
+  }
 
-      if (hearings.length === 0) {
-        return res.status(404).json({
-          message: "No hearings found.",
-        });
+  next();
+}
+
+// Require the caller to hold a permission, or to be the user named by
+// ":id" in the route when allowSelf is set
+function authorize(permission: Permission, allowSelf: boolean = false) {
+  return (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) =>
+    authenticate(req, res, () => {
+      const caller = getCaller(res)!;
+      if (allowSelf && req.params.id === caller.id) {
+        return next();
       }
 
-      res.status(200).json({
-        message: "Hearings retrieved successfully.",
-        hearings: hearings,
-      });
-    } catch (error) {
-      console.error("Error fetching hearings:", error);
-      res.status(500).json({
-        error: "Server error occurred while fetching hearings.",
-      });
+      if (!hasPermission(caller, permission)) {
+        return forbidden(
+          res,
+          `Role '${caller.role}' lacks the '${permission}' permission`
+        );
+      }
+
+      next();
+    });
+}
+
+// Only let users act on their own :id, whatever their role
+function authorizeSelf(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+) {
+  authenticate(req, res, () => {
+    if (req.params.id !== getCaller(res)!.id) {
+      return forbidden(res, "You can only access your own notifications");
     }
+
+    next();
   });
+}
 
-  // Get hearing by ID
-  app.get("/hearings/:id", (req, res) => {
-    const hearingId = req.params.id;
+// Skip a guard while no users exist, so the first account can be created
+function allowBootstrap(guard: express.RequestHandler) {
+  return (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ) => (userManager.isEmpty() ? next() : guard(req, res, next));
+}
 
-    const hearingOpt = hearingManager.get(hearingId);
+// Send the standard 403 body
+function forbidden(res: express.Response, details: string) {
+  return res.status(403).json(forbiddenError(details));
+}
 
-    if ("None" in hearingOpt) {
-      res.status(400).json({
-        status: 400,
-        message: `Couldn't find hearing with id=${hearingId}`,
-      });
-    } else {
-      res.status(200).json({
-        message: "Hearing retrieved successfully.",
-        hearing: hearingOpt.Some,
-      });
-    }
-  });
+function forbiddenError(details: string): ValidationError {
+  return {
+    status: 403,
+    error: "Forbidden",
+    details: details,
+  };
+}
 
-  // Fetch hearing for a judge
-  app.get("/judges/:id/hearings", (req, res) => {
-    const judgeId = req.params.id;
+// Check the permission matrix for a user
+function hasPermission(user: UserProfile, permission: Permission): boolean {
+  return (rolePermissions[user.role] ?? []).includes(permission);
+}
 
-    const hearings = hearingManager
-      .values()
-      .filter((h) => h.judgeId === judgeId);
+// Check whether a user is directly involved in a case, as its judge, one of
+// its lawyers or a litigant linked to one of its parties
+function isCaseParticipant(user: UserProfile, caseRecord: Case): boolean {
+  return (
+    caseRecord.judgeId === user.id ||
+    (Array.isArray(caseRecord.lawyerIds) &&
+      caseRecord.lawyerIds.includes(user.id)) ||
+    (caseRecord.parties ?? []).some((p) => p.litigantId === user.id)
+  );
+}
 
-    if (hearings.length === 0) {
-      return res.status(404).json({
-        message: "No hearings found for the judge.",
-      });
-    }
+// Check whether a user may read a case
+function canViewCase(user: UserProfile, caseRecord: Case): boolean {
+  return (
+    hasPermission(user, Permission.ViewAllCases) ||
+    isCaseParticipant(user, caseRecord)
+  );
+}
 
-    res.status(200).json({
-      message: "Hearings retrieved successfully.",
-      hearings: hearings,
-    });
-  });
+// Check whether a user may read the case with the given ID
+function canViewCaseById(user: UserProfile, caseId: string): boolean {
+  const caseOpt = caseManager.get(caseId);
+  if ("None" in caseOpt) {
+    return false;
+  }
 
-  // Fetch upcoming hearings for a judge
-  app.get("/judges/:id/upcoming-hearings", (req, res) => {
-    try {
-      const judgeId = req.params.id;
+  return canViewCase(user, caseOpt.Some);
+}
 
-      // Validate judge exists and has correct role
-      const judgeOpt = userManager.get(judgeId);
-      if ("None" in judgeOpt) {
-        return res.status(404).json({
-          status: 404,
-          error: `Judge with id ${judgeId} not found`,
-        });
-      }
+// Check whether a user may read a hearing, based on its case
+function canViewHearing(user: UserProfile, hearing: Hearing): boolean {
+  if (hasPermission(user, Permission.ViewAllHearings)) {
+    return true;
+  }
 
-      const judge = judgeOpt.Some;
-      if (judge.role !== UserRole.Judge) {
-        return res.status(403).json({
-          status: 403,
-          error: "User is not a judge",
-        });
-      }
+  return canViewCaseById(user, hearing.caseId);
+}
 
-      // Get current date
-      const currentDate = getCurrentDate();
+// Court staff manage every case; judges only the cases assigned to them
+function canManageCase(user: UserProfile, caseRecord: Case): boolean {
+  if (user.role === UserRole.CourtStaff) {
+    return true;
+  }
 
-      // Get upcoming hearings for the judge
-      const upcomingHearings = hearingManager
-        .values()
-        .filter((h) => h.judgeId === judgeId && new Date(h.date) > currentDate);
+  return user.role === UserRole.Judge && caseRecord.judgeId === user.id;
+}
 
-      // Sort hearings by date
-      upcomingHearings.sort(
-        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-      );
+// Strip the password hash before returning a user to clients
+function toPublicUser(user: UserProfile): Omit<UserProfile, "password"> {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
 
-      return res.status(200).json({
-        status: 200,
-        message: "Upcoming hearings retrieved successfully",
-        hearings: upcomingHearings,
-      });
-    } catch (error) {
-      console.error("Error fetching upcoming hearings:", error);
-      return res.status(500).json({
-        status: 500,
-        error: "Internal server error while fetching upcoming hearings",
-      });
+// Resolve a Candid caller from the principal linked to their account and
+// check their permission the way authorize() does, then run the method.
+// Errors come back as 'Err' rather than trapping, so callers see the reason.
+function callCandid<T>(
+  permission: Permission | null,
+  method: (caller: UserProfile) => T | { Err: CandidErrorBody }
+): T | { Err: CandidErrorBody } {
+  try {
+    const principal = ic.caller().toText();
+    const caller = findUserByPrincipal(principal);
+    if (!caller || !caller.active) {
+      return {
+        Err: toCandidError({
+          status: 401,
+          error: "Authentication required",
+          details: `Principal ${principal} is not linked to an active user`,
+        }),
+      };
     }
-  });
-
-  return app.listen();
-});
 
-// Utility functions
+    if (permission && !hasPermission(caller, permission)) {
+      return {
+        Err: toCandidError(
+          forbiddenError(
+            `Role '${caller.role}' lacks the '${permission}' permission`
+          )
+        ),
+      };
+    }
 
-// Get current date
-function getCurrentDate() {
-  const timestamp = new Number(ic.time());
-  return new Date(timestamp.valueOf() / 1000_000);
+    return method(caller);
+  } catch (error) {
+    console.error("Error handling Candid call:", error);
+    return {
+      Err: toCandidError({ status: 500, error: "Server error occurred" }),
+    };
+  }
 }
 
-// Ensure password is secure
-function isPasswordSecure(password: string): boolean {
-  const lengthCheck = password.length >= 8;
-  const uppercaseCheck = /[A-Z]/.test(password);
-  const lowercaseCheck = /[a-z]/.test(password);
-  const digitCheck = /\d/.test(password);
-  const specialCharCheck = /[!@#$%^&*(),.?":{}|<>]/.test(password);
+type CandidErrorBody = typeof CandidError.tsType;
+
+// Wrap the result of a shared operation in a Candid result variant
+function toCandidResult<T, R>(
+  result: T | ValidationError,
+  convert: (value: T) => R
+): { Ok: R } | { Err: CandidErrorBody } {
+  if (isValidationError(result)) {
+    return { Err: toCandidError(result) };
+  }
+
+  return { Ok: convert(result) };
+}
 
+function isValidationError(value: unknown): value is ValidationError {
   return (
-    lengthCheck &&
-    uppercaseCheck &&
-    lowercaseCheck &&
-    digitCheck &&
-    specialCharCheck
+    typeof value === "object" &&
+    value !== null &&
+    "error" in value &&
+    "status" in value
   );
 }
 
-// Hash password
-function hashPassword(password: string): string {
-  return `hashed_${password.split("").reverse().join("").toUpperCase()}_secure`;
+function toCandidError(error: ValidationError): CandidErrorBody {
+  return {
+    status: error.status,
+    error: error.error,
+    details: toOpt(error.details ?? null),
+  };
+}
+
+function toCandidCase(caseRecord: Case): typeof CandidCase.tsType {
+  return {
+    id: caseRecord.id,
+    caseNumber: caseRecord.caseNumber,
+    title: caseRecord.title,
+    description: caseRecord.description,
+    caseType: caseRecord.caseType,
+    court: caseRecord.court,
+    status: caseRecord.status,
+    judgeId: toOpt(caseRecord.judgeId),
+    lawyerIds: caseRecord.lawyerIds ?? [],
+    createdAt: new Date(caseRecord.createdAt).toISOString(),
+    updatedAt: toOpt(
+      caseRecord.updatedAt ? new Date(caseRecord.updatedAt).toISOString() : null
+    ),
+  };
+}
+
+function toCandidHearing(hearing: Hearing): typeof CandidHearing.tsType {
+  return {
+    id: hearing.id,
+    caseId: hearing.caseId,
+    judgeId: hearing.judgeId,
+    date: new Date(hearing.date).toISOString(),
+    endDate: new Date(hearing.endDate).toISOString(),
+    durationMinutes: hearing.durationMinutes,
+    courtroomId: toOpt(hearing.courtroomId),
+    location: hearing.location,
+    description: hearing.description,
+    status: hearing.status,
+    leadHearingId: toOpt(hearing.leadHearingId),
+  };
+}
+
+// Convert between nullable values and Candid options
+function toOpt<T>(value: T | null): Opt<T> {
+  return value === null ? None : Some(value);
+}
+
+function fromOpt<T>(opt: Opt<T>): T | null {
+  return opt.Some ?? null;
 }